@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { AgentInterruptRequestSchema } from '@/types/conversation';
+import { getAgoraConfig } from '@/lib/config';
+import { getAgentUrl, getAuthorizationHeader } from '@/lib/agent-api';
+import { parseJsonBody } from '@/lib/validation';
+
+// Stops the agent's current reply, the same as the user barging in by voice
+export async function POST(request: Request) {
+  try {
+    const config = getAgoraConfig();
+    const parsed = await parseJsonBody(request, AgentInterruptRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+    const { agent_id } = parsed.data;
+
+    const response = await fetch(getAgentUrl(config, agent_id, 'interrupt'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: getAuthorizationHeader(config),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Agent interrupt response:', {
+        status: response.status,
+        body: errorText,
+      });
+      throw new Error(
+        `Failed to interrupt agent: ${response.status} ${errorText}`
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error interrupting agent:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to interrupt agent',
+      },
+      { status: 500 }
+    );
+  }
+}
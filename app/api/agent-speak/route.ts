@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { AgentSpeakRequestSchema } from '@/types/conversation';
+import { checkOperatorAuth } from '@/lib/auth';
+import { getAgoraConfig } from '@/lib/config';
+import { getAgentUrl, getAuthorizationHeader } from '@/lib/agent-api';
+import { parseJsonBody } from '@/lib/validation';
+
+// Makes the agent say arbitrary text through TTS.
+// Only supported for cascaded (LLM + TTS) agents, not MLLM agents.
+// Operators only, see NEXT_OPERATOR_SECRET.
+export async function POST(request: Request) {
+  try {
+    const authError = checkOperatorAuth(request);
+    if (authError) {
+      return authError;
+    }
+    const config = getAgoraConfig();
+    const parsed = await parseJsonBody(request, AgentSpeakRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+    const {
+      agent_id,
+      text,
+      priority = 'INTERRUPT',
+      interruptable = true,
+    } = parsed.data;
+
+    const response = await fetch(getAgentUrl(config, agent_id, 'speak'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: getAuthorizationHeader(config),
+      },
+      body: JSON.stringify({ text, priority, interruptable }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Agent speak response:', {
+        status: response.status,
+        body: errorText,
+      });
+      throw new Error(
+        `Failed to make agent speak: ${response.status} ${errorText}`
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error making agent speak:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to make agent speak',
+      },
+      { status: 500 }
+    );
+  }
+}
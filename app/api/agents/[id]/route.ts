@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { AgentIdSchema, AgentStatusResponse } from '@/types/conversation';
+import { getAgoraConfig } from '@/lib/config';
+import { getAgentUrl, getAuthorizationHeader } from '@/lib/agent-api';
+import { validationErrorResponse } from '@/lib/validation';
+
+// Query the status of a single agent
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const config = getAgoraConfig();
+    const { id } = await params;
+    const parsedId = AgentIdSchema.safeParse(id);
+    if (!parsedId.success) {
+      return validationErrorResponse('Invalid agent id', [
+        { path: 'id', message: parsedId.error.issues[0].message },
+      ]);
+    }
+
+    const response = await fetch(getAgentUrl(config, id), {
+      method: 'GET',
+      headers: {
+        Authorization: getAuthorizationHeader(config),
+      },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Agent status response:', {
+        status: response.status,
+        body: errorText,
+      });
+      return NextResponse.json(
+        {
+          error: `Failed to query agent: ${response.status} ${errorText}`,
+        },
+        // Pass through 404 so the client can tell a missing agent from a failure
+        { status: response.status === 404 ? 404 : 500 }
+      );
+    }
+
+    const data: AgentStatusResponse = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error querying agent:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to query agent',
+      },
+      { status: 500 }
+    );
+  }
+}
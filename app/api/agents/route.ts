@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AgentListQuerySchema,
+  AgentListResponse,
+} from '@/types/conversation';
+import { checkOperatorAuth } from '@/lib/auth';
+import { getAgoraConfig } from '@/lib/config';
+import { getAuthorizationHeader } from '@/lib/agent-api';
+import { parseSearchParams } from '@/lib/validation';
+
+// List agents for this App ID, e.g. ?state=2 for running agents. Operators
+// only, the ids are enough to control an agent.
+export async function GET(request: NextRequest) {
+  try {
+    const authError = checkOperatorAuth(request);
+    if (authError) {
+      return authError;
+    }
+    const config = getAgoraConfig();
+    const { searchParams } = new URL(request.url);
+    const parsed = parseSearchParams(searchParams, AgentListQuerySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    // Forward only the validated filters to the Conversational AI list endpoint
+    const query = new URLSearchParams();
+    Object.entries(parsed.data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        query.set(key, String(value));
+      }
+    });
+
+    const response = await fetch(
+      `${config.baseUrl}/${config.appId}/agents?${query.toString()}`,
+      {
+        method: 'GET',
+        headers: {
+          Authorization: getAuthorizationHeader(config),
+        },
+        cache: 'no-store',
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Agent list response:', {
+        status: response.status,
+        body: errorText,
+      });
+      throw new Error(
+        `Failed to list agents: ${response.status} ${errorText}`
+      );
+    }
+
+    const data: AgentListResponse = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error listing agents:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to list agents',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RtcTokenBuilder, RtcRole } from 'agora-token';
-
-const APP_ID = process.env.NEXT_PUBLIC_AGORA_APP_ID;
-const APP_CERTIFICATE = process.env.NEXT_AGORA_APP_CERTIFICATE;
-const EXPIRATION_TIME_IN_SECONDS = 3600;
+import { RtcRole } from 'agora-token';
+import {
+  AgoraTokenData,
+  GenerateTokenQuerySchema,
+} from '@/types/conversation';
+import { buildRtcToken, getTokenExpiresAt } from '@/lib/agora-token';
+import { parseSearchParams } from '@/lib/validation';
+import { AgoraConfig, ConfigError, getAgoraConfig } from '@/lib/config';
 
 function generateChannelName(): string {
   // Generate a random string prefixed with timestamp to ensure uniqueness
@@ -15,41 +18,50 @@ function generateChannelName(): string {
 export async function GET(request: NextRequest) {
   console.log('Generating Agora token...');
 
-  if (!APP_ID || !APP_CERTIFICATE) {
-    console.error('Agora credentials are not set');
-    return NextResponse.json(
-      { error: 'Agora credentials are not set' },
-      { status: 500 }
-    );
+  let config: AgoraConfig;
+  try {
+    config = getAgoraConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    throw error;
   }
 
   const { searchParams } = new URL(request.url);
-  const uidStr = searchParams.get('uid') || '0';
-  const uid = parseInt(uidStr);
+  const parsed = parseSearchParams(searchParams, GenerateTokenQuerySchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const { account, role, rtm } = parsed.data;
+  const uid = account || parsed.data.uid || '0';
   // Use provided channel name or generate new one
-  const channelName = searchParams.get('channel') || generateChannelName();
-
-  const expirationTime =
-    Math.floor(Date.now() / 1000) + EXPIRATION_TIME_IN_SECONDS;
+  const channelName = parsed.data.channel || generateChannelName();
+  const rtcRole =
+    role === 'subscriber' ? RtcRole.SUBSCRIBER : RtcRole.PUBLISHER;
 
   try {
     console.log('Building token with UID:', uid, 'Channel:', channelName);
-    const token = RtcTokenBuilder.buildTokenWithUid(
-      APP_ID,
-      APP_CERTIFICATE,
-      channelName,
-      uid,
-      RtcRole.PUBLISHER,
-      expirationTime,
-      expirationTime
-    );
+    // With rtm the token also lets uid log in to RTM
+    const token = buildRtcToken(config, {
+      channel: channelName,
+      uid: account || rtm ? uid : parseInt(uid, 10),
+      role: rtcRole,
+      account: !!account,
+      rtm,
+    });
 
     console.log('Token generated successfully');
-    return NextResponse.json({
+    const response: AgoraTokenData = {
       token,
-      uid: uid.toString(),
+      uid,
       channel: channelName,
-    });
+      role,
+      rtmUserId: rtm ? uid : undefined,
+      expiresAt: getTokenExpiresAt(),
+    };
+    return NextResponse.json(response);
   } catch (error) {
     console.error('Error generating Agora token:', error);
     return NextResponse.json(
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getConfigStatus } from '@/lib/config';
+
+// Reports whether the server is configured to start conversations.
+// Only env var names are listed, never their values.
+export async function GET() {
+  try {
+    const status = getConfigStatus();
+    return NextResponse.json(status, { status: status.ready ? 200 : 503 });
+  } catch (error) {
+    console.error('Error checking configuration:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to check configuration',
+      },
+      { status: 500 }
+    );
+  }
+}
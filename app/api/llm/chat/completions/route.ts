@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { ChatCompletionRequestSchema } from '@/types/conversation';
+import { hasBearerToken } from '@/lib/auth';
+import {
+  getAgentToolsConfig,
+  getLLMConfig,
+  getLLMProxyConfig,
+} from '@/lib/config';
+import { getLeadSink } from '@/lib/leads';
+import { LLM_PROXY_MIDDLEWARES, proxyChatCompletion } from '@/lib/llm-proxy';
+import { parseJsonBody } from '@/lib/validation';
+
+// OpenAI-compatible chat completions endpoint for the agent (llm.vendor
+// "custom"). Forwards to NEXT_LLM_URL through the middlewares in
+// lib/llm-proxy/middlewares.ts and runs agent tool calls itself.
+export async function POST(request: Request) {
+  try {
+    const proxy = getLLMProxyConfig();
+    if (!proxy.apiKey) {
+      return NextResponse.json(
+        { error: 'LLM proxy is disabled, set NEXT_LLM_PROXY_API_KEY' },
+        { status: 404 }
+      );
+    }
+    if (!hasBearerToken(request, proxy.apiKey)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = await parseJsonBody(request, ChatCompletionRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const llm = getLLMConfig();
+    // invite-agent adds the channel to the proxy URL, Agora doesn't send the
+    // agent id with its requests
+    const channel = new URL(request.url).searchParams.get('channel');
+    return await proxyChatCompletion(parsed.data, {
+      upstream: { url: llm.url, apiKey: llm.api_key, model: llm.model },
+      middlewares: LLM_PROXY_MIDDLEWARES,
+      toolContext: getAgentToolsConfig().enabled
+        ? { agentId: null, channel, leadSink: getLeadSink() }
+        : undefined,
+      signal: request.signal,
+    });
+  } catch (error) {
+    console.error('Error proxying chat completion:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to proxy chat completion',
+      },
+      { status: 500 }
+    );
+  }
+}
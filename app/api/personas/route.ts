@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import {
+  listPersonas,
+  getDefaultPersonaId,
+  toPersonaSummary,
+} from '@/lib/personas';
+import type { PersonaListResponse } from '@/types/conversation';
+
+export async function GET() {
+  try {
+    const response: PersonaListResponse = {
+      personas: listPersonas().map(toPersonaSummary),
+      default_persona_id: getDefaultPersonaId(),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error listing personas:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to list personas',
+      },
+      { status: 500 }
+    );
+  }
+}
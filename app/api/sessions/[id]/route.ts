@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import {
+  SaveSessionTurnsRequestSchema,
+  SessionRecord,
+} from '@/types/conversation';
+import { checkOperatorAuth } from '@/lib/auth';
+import {
+  getSessionStore,
+  hasSessionWriteToken,
+  SessionNotFoundError,
+} from '@/lib/sessions';
+import { parseJsonBody } from '@/lib/validation';
+
+const storageDisabledResponse = () =>
+  NextResponse.json(
+    { error: 'Session storage is disabled, set NEXT_SESSION_STORE' },
+    { status: 404 }
+  );
+
+// Fetch one stored conversation with its turns, operators only
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = checkOperatorAuth(request);
+    if (authError) {
+      return authError;
+    }
+    const store = getSessionStore();
+    if (!store) {
+      return storageDisabledResponse();
+    }
+    const { id } = await params;
+
+    const session: SessionRecord | null = await store.get(id);
+    if (!session) {
+      return NextResponse.json(
+        { error: `Unknown session: ${id}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to load session',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the final turns when the conversation ends. Only the client that
+// started the session has its token, see invite-agent.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const store = getSessionStore();
+    if (!store) {
+      return storageDisabledResponse();
+    }
+    const { id } = await params;
+    if (!hasSessionWriteToken(request, id)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const parsed = await parseJsonBody(request, SaveSessionTurnsRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const session = await store.saveTurns(
+      id,
+      parsed.data.turns,
+      new Date().toISOString()
+    );
+    return NextResponse.json(session);
+  } catch (error) {
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error saving session:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to save session',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { SessionListResponse } from '@/types/conversation';
+import { checkOperatorAuth } from '@/lib/auth';
+import { getSessionStore } from '@/lib/sessions';
+
+// List stored conversations, newest first. Operators only, transcripts can
+// hold the contact details the agent collected.
+export async function GET(request: Request) {
+  try {
+    const authError = checkOperatorAuth(request);
+    if (authError) {
+      return authError;
+    }
+    const store = getSessionStore();
+    if (!store) {
+      return NextResponse.json(
+        { error: 'Session storage is disabled, set NEXT_SESSION_STORE' },
+        { status: 404 }
+      );
+    }
+
+    const response: SessionListResponse = { sessions: await store.list() };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to list sessions',
+      },
+      { status: 500 }
+    );
+  }
+}
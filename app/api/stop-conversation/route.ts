@@ -1,46 +1,25 @@
 import { NextResponse } from 'next/server';
-import { StopConversationRequest } from '@/types/conversation';
-
-// Helper function to validate and get Agora configuration
-function getValidatedConfig() {
-  const agoraConfig = {
-    baseUrl: process.env.NEXT_AGORA_CONVO_AI_BASE_URL,
-    appId: process.env.NEXT_PUBLIC_AGORA_APP_ID || '',
-    customerId: process.env.NEXT_AGORA_CUSTOMER_ID || '',
-    customerSecret: process.env.NEXT_AGORA_CUSTOMER_SECRET || '',
-  };
-
-  if (Object.values(agoraConfig).some((v) => !v || v.trim() === '')) {
-    throw new Error('Missing Agora configuration. Check your .env.local file');
-  }
-
-  return agoraConfig;
-}
+import { StopConversationRequestSchema } from '@/types/conversation';
+import { getAgoraConfig } from '@/lib/config';
+import { getAgentUrl, getAuthorizationHeader } from '@/lib/agent-api';
+import { parseJsonBody } from '@/lib/validation';
 
 export async function POST(request: Request) {
   try {
-    const config = getValidatedConfig();
-    const body: StopConversationRequest = await request.json();
-    const { agent_id } = body;
-
-    if (!agent_id) {
-      throw new Error('agent_id is required');
+    const config = getAgoraConfig();
+    const parsed = await parseJsonBody(request, StopConversationRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
     }
+    const { agent_id } = parsed.data;
 
-    const plainCredential = `${config.customerId}:${config.customerSecret}`;
-    const encodedCredential = Buffer.from(plainCredential).toString('base64');
-    const authorizationHeader = `Basic ${encodedCredential}`;
-
-    const response = await fetch(
-      `${config.baseUrl}/${config.appId}/agents/${agent_id}/leave`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: authorizationHeader,
-        },
-      }
-    );
+    const response = await fetch(getAgentUrl(config, agent_id, 'leave'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: getAuthorizationHeader(config),
+      },
+    });
 
     if (!response.ok) {
       const errorText = await response.text();
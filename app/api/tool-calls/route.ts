@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import {
+  ToolCallRequestSchema,
+  ToolCallResponse,
+} from '@/types/conversation';
+import { hasBearerToken } from '@/lib/auth';
+import { getAgentToolsConfig } from '@/lib/config';
+import { getLeadSink } from '@/lib/leads';
+import {
+  executeToolCall,
+  ToolArgumentsError,
+  UnknownToolError,
+} from '@/lib/tools';
+import { parseJsonBody, validationErrorResponse } from '@/lib/validation';
+
+// Runs a tool call the LLM made, e.g. save_lead, and returns the result to
+// send back to the LLM as the tool message
+export async function POST(request: Request) {
+  try {
+    const config = getAgentToolsConfig();
+    if (!config.enabled) {
+      return NextResponse.json(
+        { error: 'Agent tools are disabled, set NEXT_ENABLE_AGENT_TOOLS' },
+        { status: 404 }
+      );
+    }
+    // Anyone could write leads otherwise
+    if (!config.webhookSecret) {
+      return NextResponse.json(
+        { error: 'Tool calls need a secret, set NEXT_TOOL_WEBHOOK_SECRET' },
+        { status: 503 }
+      );
+    }
+    if (!hasBearerToken(request, config.webhookSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = await parseJsonBody(request, ToolCallRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+    const { agent_id, channel, tool_call } = parsed.data;
+
+    let result: unknown;
+    try {
+      result = await executeToolCall(tool_call, {
+        agentId: agent_id ?? null,
+        channel: channel ?? null,
+        leadSink: getLeadSink(),
+      });
+    } catch (error) {
+      if (error instanceof UnknownToolError) {
+        return validationErrorResponse(error.message, [
+          { path: 'tool_call.function.name', message: error.message },
+        ]);
+      }
+      if (error instanceof ToolArgumentsError) {
+        return validationErrorResponse(
+          error.message,
+          error.issues.map((issue) => ({
+            path: ['tool_call.function.arguments', issue.path]
+              .filter(Boolean)
+              .join('.'),
+            message: issue.message,
+          }))
+        );
+      }
+      throw error;
+    }
+
+    const response: ToolCallResponse = {
+      tool_call_id: tool_call.id,
+      content: JSON.stringify(result),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error running tool call:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to run tool call',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { notFound } from 'next/navigation';
+import ReplayViewer from '@/components/ReplayViewer';
+
+// Replays transcript recordings offline, development builds only
+export default function ReplayPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+  return <ReplayViewer />;
+}
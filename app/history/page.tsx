@@ -0,0 +1,6 @@
+import SessionHistory from '@/components/SessionHistory';
+
+// Browse and replay conversations stored with NEXT_SESSION_STORE
+export default function HistoryPage() {
+  return <SessionHistory />;
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Megaphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  MAX_SPEAK_TEXT_BYTES,
+  type AgentSpeakRequest,
+  type SpeakPriority,
+} from '@/types/conversation';
+import {
+  getOperatorHeaders,
+  getOperatorSecret,
+  setOperatorSecret,
+} from '@/lib/operator';
+
+interface AgentSpeakControlProps {
+  agentId: string | undefined;
+}
+
+// Operator control to make the agent announce arbitrary text
+export function AgentSpeakControl({ agentId }: AgentSpeakControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [priority, setPriority] = useState<SpeakPriority>('INTERRUPT');
+  const [interruptable, setInterruptable] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The server checks it, hiding this control is not enough
+  const [secret, setSecret] = useState('');
+
+  useEffect(() => {
+    setSecret(getOperatorSecret());
+  }, []);
+
+  const textBytes = new TextEncoder().encode(text).length;
+  const isTooLong = textBytes > MAX_SPEAK_TEXT_BYTES;
+
+  const handleSend = async () => {
+    if (!agentId || !text.trim() || isTooLong || !secret) return;
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const speakRequest: AgentSpeakRequest = {
+        agent_id: agentId,
+        text,
+        priority,
+        interruptable,
+      };
+
+      const response = await fetch('/api/agent-speak', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getOperatorHeaders(),
+        },
+        body: JSON.stringify(speakRequest),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || response.statusText);
+      }
+
+      setText('');
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Error sending announcement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full w-10 h-10 bg-gray-800/50 hover:bg-gray-700/50 backdrop-blur-sm border border-gray-600"
+          title="Make the agent speak"
+          disabled={!agentId}
+        >
+          <Megaphone className="h-4 w-4 text-white" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="center"
+        className="w-72 bg-gray-900 border-gray-700 text-white space-y-3"
+      >
+        <div className="text-xs font-semibold text-gray-400">Announcement</div>
+        <Input
+          type="password"
+          value={secret}
+          onChange={(e) => {
+            setSecret(e.target.value);
+            setOperatorSecret(e.target.value);
+          }}
+          placeholder="Operator secret"
+          className="bg-black border-gray-700 text-white"
+        />
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="We're closing in 5 minutes..."
+          className="bg-black border-gray-700 text-white"
+        />
+        <div
+          className={`text-xs text-right ${
+            isTooLong ? 'text-red-500' : 'text-gray-500'
+          }`}
+        >
+          {textBytes}/{MAX_SPEAK_TEXT_BYTES} bytes
+        </div>
+        <Select
+          value={priority}
+          onValueChange={(value) => setPriority(value as SpeakPriority)}
+        >
+          <SelectTrigger className="bg-black border-gray-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-900 border-gray-700 text-white">
+            <SelectItem value="INTERRUPT">Interrupt current reply</SelectItem>
+            <SelectItem value="APPEND">After current reply</SelectItem>
+            <SelectItem value="IGNORE">Only if agent is idle</SelectItem>
+          </SelectContent>
+        </Select>
+        <label className="flex items-center justify-between text-sm">
+          User can interrupt
+          <Switch
+            checked={interruptable}
+            onCheckedChange={setInterruptable}
+          />
+        </label>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        <Button
+          onClick={handleSend}
+          disabled={isSending || !text.trim() || isTooLong || !secret}
+          className="w-full rounded-full bg-[#A0FAFF] text-black hover:bg-[#A0FAFF]/80"
+        >
+          {isSending ? 'Sending...' : 'Speak'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -14,26 +14,102 @@ import {
 } from 'agora-rtc-react';
 import { MicrophoneButton } from './MicrophoneButton';
 import { MicrophoneSelector } from './MicrophoneSelector';
+import { AgentSpeakControl } from './AgentSpeakControl';
+import { InterruptButton } from './InterruptButton';
+import { DownloadRecordingButton } from './DownloadRecordingButton';
 import { AudioVisualizer } from './AudioVisualizer';
 import type {
   ConversationComponentProps,
   ClientStartRequest,
+  AgentInterruptRequest,
+  AgentChatMessage,
+  PresenceState,
+  SaveSessionTurnsRequest,
 } from '@/types/conversation';
-import ConvoTextStream from './ConvoTextStream';
 import {
-  MessageEngine,
-  IMessageListItem,
-  EMessageStatus,
-  EMessageEngineMode,
-} from '@/lib/message';
+  AGENT_CHAT_MESSAGE_TYPE,
+  MAX_TURN_TEXT_LENGTH,
+} from '@/types/conversation';
+import ConvoTextStream from './ConvoTextStream';
+import { useAgentStatus } from '@/hooks/use-agent-status';
+import { useRTMClient } from '@/hooks/use-rtm-client';
+import { useConversationTranscript } from '@/hooks/use-conversation-transcript';
+import { EMessageSpeaker, IMessageListItem } from '@/lib/message';
+import { downloadRecording } from '@/lib/message-recording';
+import { toTranscriptTurns } from '@/lib/transcript-export';
 
 // Export EMessageStatus for use in other components
 export { EMessageStatus } from '@/lib/message';
 
 const MESSAGE_BUFFER: { [key: string]: string } = {};
 
+// Records transcript traffic so it can be replayed on /dev/replay
+const IS_RECORDING_ENABLED =
+  process.env.NEXT_PUBLIC_ENABLE_TRANSCRIPT_RECORDING === 'true';
+
+const PRESENCE_SELECTION_DEBOUNCE_MS = 500;
+// Keep highlighted text short, it ends up in every LLM request
+const MAX_PRESENCE_SELECTION_LENGTH = 500;
+
+// Stored session of the current agent, set when the server stores sessions
+interface ActiveSession {
+  id: string;
+  // From invite-agent, required to save the turns
+  token: string;
+  // Turns from an earlier agent in the same channel were added before this
+  startedAt: number;
+}
+
+function toActiveSession(
+  id: string | undefined,
+  token: string | undefined,
+  startedAt: number
+): ActiveSession | undefined {
+  return id && token ? { id, token, startedAt } : undefined;
+}
+
+// Stores the turns of one agent with its session, for /history. keepalive
+// lets the request outlive the page but caps the body at 64 KB.
+async function saveSessionTurns(
+  session: ActiveSession,
+  messages: IMessageListItem[],
+  keepalive = false
+) {
+  try {
+    const saveRequest: SaveSessionTurnsRequest = {
+      turns: toTranscriptTurns(
+        messages.filter((message) => message.timestamp >= session.startedAt)
+      ).map((turn) => ({
+        ...turn,
+        // One long answer shouldn't cost the whole session
+        text: turn.text.slice(0, MAX_TURN_TEXT_LENGTH),
+      })),
+    };
+    const response = await fetch(
+      `/api/sessions/${encodeURIComponent(session.id)}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.token}`,
+        },
+        body: JSON.stringify(saveRequest),
+        keepalive,
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to save session: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.warn('Error saving session:', error);
+  }
+}
+
 export default function ConversationComponent({
   agoraData,
+  personaId,
+  agentName,
+  mode = 'cascade',
   onTokenWillExpire,
   onEndConversation,
 }: ConversationComponentProps) {
@@ -44,21 +120,59 @@ export default function ConversationComponent({
   const { localMicrophoneTrack } = useLocalMicrophoneTrack(isEnabled);
   const [isAgentConnected, setIsAgentConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const agentUID = process.env.NEXT_AGENT_UID;
   const [joinedUID, setJoinedUID] = useState<UID>(0);
-  const [messageList, setMessageList] = useState<IMessageListItem[]>([]);
-  const [currentInProgressMessage, setCurrentInProgressMessage] =
-    useState<IMessageListItem | null>(null);
-  const messageEngineRef = useRef<MessageEngine | null>(null);
+  const [agentId, setAgentId] = useState(agoraData.agentId);
+  // Changes when the agent is restarted
+  const [session, setSession] = useState(() =>
+    toActiveSession(agoraData.sessionId, agoraData.sessionToken, 0)
+  );
+  // RTC uid the current agent joined with, changes when the agent is restarted
+  const [agentUid, setAgentUid] = useState(agoraData.agentUid);
+  // Agent lifecycle as seen by the Conversational AI service
+  const { status: agentStatus } = useAgentStatus(agentId);
+  // RTM connection for presence, only when the token carries RTM privileges
+  const {
+    isConnected: isRTMConnected,
+    publishPresence,
+    sendMessage: sendRTMMessage,
+    renewToken: renewRTMToken,
+  } = useRTMClient({
+    appId: process.env.NEXT_PUBLIC_AGORA_APP_ID!,
+    channel: agoraData.channel,
+    userId: agoraData.rtmUserId,
+    token: agoraData.rtmUserId ? agoraData.token : undefined,
+  });
 
-  // Check if agent UID is properly set
+  // Share what the user is looking at with the agent as context.presence:
+  // the current page and any text they highlight
   useEffect(() => {
-    if (!agentUID) {
-      console.warn('NEXT_AGENT_UID environment variable is not set');
-    } else {
-      console.log('Agent UID is set to:', agentUID);
-    }
-  }, [agentUID]);
+    if (!isRTMConnected) return;
+
+    const publish = (state: PresenceState) =>
+      publishPresence(state).catch((err) =>
+        console.warn('Failed to publish presence:', err)
+      );
+
+    publish({ page: document.title || window.location.pathname });
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const handleSelectionChange = () => {
+      if (timer) clearTimeout(timer);
+      // Wait for the selection to settle instead of publishing every change
+      timer = setTimeout(() => {
+        const selection = window.getSelection()?.toString().trim() || '';
+        publish({
+          selection: selection.slice(0, MAX_PRESENCE_SELECTION_LENGTH),
+        });
+      }, PRESENCE_SELECTION_DEBOUNCE_MS);
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => {
+      if (timer) clearTimeout(timer);
+      document.removeEventListener('selectionchange', handleSelectionChange);
+    };
+  }, [isRTMConnected, publishPresence]);
 
   // Join the channel using the useJoin hook
   const { isConnected: joinSuccess } = useJoin(
@@ -71,159 +185,41 @@ export default function ConversationComponent({
     true
   );
 
-  // Initialize MessageEngine when client is ready and connected
-  useEffect(() => {
-    // Only initialize when the client is connected
-    if (!client || !isConnected) return;
-
-    // First, clean up any existing instance
-    if (messageEngineRef.current) {
-      console.log('Cleaning up existing MessageEngine instance');
-      try {
-        messageEngineRef.current.teardownInterval();
-        messageEngineRef.current.cleanup();
-      } catch (err) {
-        console.error('Error cleaning up MessageEngine:', err);
-      }
-      messageEngineRef.current = null;
-    }
-
-    console.log('Creating new MessageEngine instance with connected client');
-
-    // Create message engine with TEXT mode for better compatibility
-    try {
-      const messageEngine = new MessageEngine(
-        client,
-        EMessageEngineMode.TEXT, // Use TEXT mode for more reliable message handling
-        // Callback to handle message list updates
-        (updatedMessages: IMessageListItem[]) => {
-          console.log('MessageEngine update:', updatedMessages);
-
-          // Sort messages by turn_id to maintain order
-          const sortedMessages = [...updatedMessages].sort(
-            (a, b) => a.turn_id - b.turn_id
-          );
-
-          // Find the latest in-progress message
-          const inProgressMsg = sortedMessages.find(
-            (msg) => msg.status === EMessageStatus.IN_PROGRESS
-          );
-
-          // Debug UID issues
-          if (sortedMessages.length > 0) {
-            console.log(
-              'Message UIDs:',
-              sortedMessages.map((m) => m.uid)
-            );
-            console.log('Agent UID (for comparison):', agentUID);
-          }
-
-          // Update states
-          setMessageList(
-            sortedMessages.filter(
-              (msg) => msg.status !== EMessageStatus.IN_PROGRESS
-            )
-          );
-          setCurrentInProgressMessage(inProgressMsg || null);
-        }
-      );
-
-      messageEngineRef.current = messageEngine;
-
-      // Start the MessageEngine after client is connected
-      console.log('Starting MessageEngine...');
-      messageEngineRef.current.run({ legacyMode: false });
-      console.log('MessageEngine successfully initialized and running');
-    } catch (error) {
-      console.error('Failed to initialize MessageEngine:', error);
-    }
+  // AUTO mode switches to WORD mode when the agent sends word timing
+  const {
+    messages: messageList,
+    inProgress,
+    addUserTextMessage,
+    interruptAgentTurn,
+    getRecording,
+  } = useConversationTranscript(client, {
+    enabled: isConnected,
+    agentUid,
+    record: IS_RECORDING_ENABLED,
+  });
+  const currentInProgressMessage =
+    inProgress[EMessageSpeaker.AGENT] ?? inProgress[EMessageSpeaker.USER];
 
-    // Cleanup on state change
-    return () => {
-      if (messageEngineRef.current) {
-        console.log('Cleaning up MessageEngine on state change');
-        try {
-          messageEngineRef.current.teardownInterval();
-          messageEngineRef.current.cleanup();
-        } catch (err) {
-          console.error('Error cleaning up MessageEngine:', err);
-        }
-        messageEngineRef.current = null;
+  // Closing the tab also ends the conversation, save what we have
+  const sessionRef = useRef({ session, messageList });
+  sessionRef.current = { session, messageList };
+  useEffect(() => {
+    const handlePageHide = () => {
+      const { session, messageList } = sessionRef.current;
+      if (session) {
+        saveSessionTurns(session, messageList, true);
       }
     };
-  }, [client, agentUID, isConnected]); // Add isConnected dependency
-
-  // Add improved stream message handler
-  useClientEvent(client, 'stream-message', (uid, payload) => {
-    const uidStr = uid.toString();
-    const isAgentMessage = uidStr === '333'; // Use fixed value as this appears to be consistent
-
-    console.log(
-      `Received stream message from UID: ${uidStr}`,
-      isAgentMessage ? 'AGENT MESSAGE' : '',
-      `(Expected agent UID: ${agentUID})`,
-      `Payload size: ${payload.length}`
-    );
-
-    // Check if message engine is running and try to restart if needed
-    if (messageEngineRef.current) {
-      console.log('MessageEngine is initialized');
-
-      // If MessageEngine is not properly handling messages, force restart
-      // Use a flag to avoid multiple restarts
-      let needsRestart = false;
-
-      // Intercept console error messages about message service not running
-      const originalConsoleError = console.error;
-      console.error = function (...args) {
-        const errorMsg = args.join(' ');
-        if (errorMsg.includes('Message service is not running')) {
-          needsRestart = true;
-        }
-        originalConsoleError.apply(console, args);
-      };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
 
-      // Try to use the message engine to handle the message
-      try {
-        if (isAgentMessage) {
-          messageEngineRef.current.handleStreamMessage(payload);
-          console.log('Processed agent message through MessageEngine');
-        }
-      } catch (error) {
-        console.error('Error processing stream message:', error);
-        needsRestart = true;
-      }
-
-      // Restore original console.error
-      console.error = originalConsoleError;
-
-      // If needed, restart the message engine after a short delay
-      if (needsRestart) {
-        setTimeout(() => {
-          console.log('Attempting to restart MessageEngine...');
-          try {
-            messageEngineRef.current?.run({ legacyMode: false });
-            console.log('MessageEngine restarted successfully');
-          } catch (error) {
-            console.error('Failed to restart MessageEngine:', error);
-          }
-        }, 50);
-      }
-    } else {
-      console.error('MessageEngine not initialized!');
-    }
-
-    // Check if this is likely the agent but UID doesn't match expected
-    if (isAgentMessage && uidStr !== agentUID) {
-      console.warn(
-        `Possible agent UID mismatch. Message from: ${uidStr}, Expected: ${agentUID}`
-      );
-      // Update environment config if needed
-      console.info(
-        `You may need to set NEXT_AGENT_UID=${uidStr} in your .env file`
-      );
+  const handleEndConversation = () => {
+    if (session) {
+      saveSessionTurns(session, messageList);
     }
-  });
+    onEndConversation(messageList);
+  };
 
   // Update actualUID when join is successful
   useEffect(() => {
@@ -247,7 +243,7 @@ export default function ConversationComponent({
   // Handle remote user events
   useClientEvent(client, 'user-joined', (user) => {
     console.log('Remote user joined:', user.uid);
-    if (user.uid.toString() === agentUID) {
+    if (user.uid.toString() === agentUid) {
       setIsAgentConnected(true);
       setIsConnecting(false);
     }
@@ -255,7 +251,7 @@ export default function ConversationComponent({
 
   useClientEvent(client, 'user-left', (user) => {
     console.log('Remote user left:', user.uid);
-    if (user.uid.toString() === agentUID) {
+    if (user.uid.toString() === agentUid) {
       setIsAgentConnected(false);
       setIsConnecting(false);
     }
@@ -264,10 +260,10 @@ export default function ConversationComponent({
   // Sync isAgentConnected with remoteUsers
   useEffect(() => {
     const isAgentInRemoteUsers = remoteUsers.some(
-      (user) => user.uid.toString() === agentUID
+      (user) => user.uid.toString() === agentUid
     );
     setIsAgentConnected(isAgentInRemoteUsers);
-  }, [remoteUsers, agentUID]);
+  }, [remoteUsers, agentUid]);
 
   // Connection state changes
   useClientEvent(client, 'connection-state-change', (curState, prevState) => {
@@ -289,6 +285,7 @@ export default function ConversationComponent({
   const handleStartConversation = async () => {
     if (!agoraData.agentId) return;
     setIsConnecting(true);
+    const startedAt = Date.now();
 
     try {
       const startRequest: ClientStartRequest = {
@@ -296,6 +293,8 @@ export default function ConversationComponent({
         channel_name: agoraData.channel,
         input_modalities: ['text'],
         output_modalities: ['text', 'audio'],
+        persona_id: personaId,
+        mode,
       };
 
       const response = await fetch('/api/invite-agent', {
@@ -313,7 +312,19 @@ export default function ConversationComponent({
       // Update agent ID when new agent is connected
       const data = await response.json();
       if (data.agent_id) {
+        // The previous agent's session ends here
+        if (session) {
+          saveSessionTurns(session, messageList);
+        }
         agoraData.agentId = data.agent_id;
+        agoraData.avatarUid = data.avatar_uid;
+        agoraData.sessionId = data.session_id;
+        agoraData.sessionToken = data.session_token;
+        setAgentId(data.agent_id);
+        setAgentUid(data.agent_uid);
+        setSession(
+          toActiveSession(data.session_id, data.session_token, startedAt)
+        );
       }
     } catch (error) {
       if (error instanceof Error) {
@@ -324,6 +335,59 @@ export default function ConversationComponent({
     }
   };
 
+  // Typed input goes to the agent over RTM, MLLM agents only take audio
+  const canSendText =
+    isRTMConnected && !!agentUid && !!agentId && mode !== 'mllm';
+
+  // Send typed text to the agent and show it as a user turn
+  const handleSendMessage = async (text: string) => {
+    if (!agentUid) return;
+
+    const chatMessage: AgentChatMessage = {
+      message: text,
+      priority: 'INTERRUPT',
+      interruptable: true,
+    };
+    await sendRTMMessage(
+      agentUid,
+      JSON.stringify(chatMessage),
+      AGENT_CHAT_MESSAGE_TYPE
+    );
+    addUserTextMessage(text, Number(joinedUID));
+  };
+
+  // Stop the agent's current reply
+  const handleInterrupt = async () => {
+    if (!agentId) return;
+
+    try {
+      const interruptRequest: AgentInterruptRequest = { agent_id: agentId };
+      const response = await fetch('/api/agent-interrupt', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(interruptRequest),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to interrupt agent: ${response.statusText}`);
+      }
+
+      // Don't wait for the agent's message.interrupt event to update the transcript
+      interruptAgentTurn();
+    } catch (error) {
+      console.error('Error interrupting agent:', error);
+    }
+  };
+
+  const handleDownloadRecording = () => {
+    const recording = getRecording();
+    if (recording) {
+      downloadRecording(recording);
+    }
+  };
+
   // Toggle microphone functionality
   const handleMicrophoneToggle = async (isOn: boolean) => {
     setIsEnabled(isOn);
@@ -340,48 +404,44 @@ export default function ConversationComponent({
     try {
       const newToken = await onTokenWillExpire(joinedUID.toString());
       await client?.renewToken(newToken);
+      // The same AccessToken2 carries the RTM privileges
+      if (isRTMConnected) {
+        await renewRTMToken(newToken);
+      }
       console.log('Successfully renewed Agora token');
     } catch (error) {
       console.error('Failed to renew Agora token:', error);
     }
-  }, [client, onTokenWillExpire, joinedUID]);
+  }, [client, onTokenWillExpire, joinedUID, isRTMConnected, renewRTMToken]);
 
   // Add token observer
   useClientEvent(client, 'token-privilege-will-expire', handleTokenWillExpire);
 
-  // Debug remote users to ensure we have the right agent UID
-  useEffect(() => {
-    if (remoteUsers.length > 0) {
-      console.log(
-        'Remote users detected:',
-        remoteUsers.map((u) => u.uid)
-      );
-      console.log('Current NEXT_AGENT_UID:', agentUID);
-
-      // If we see UIDs that don't match our expected agent UID
-      const potentialAgents = remoteUsers.map((u) => u.uid.toString());
-      if (agentUID && !potentialAgents.includes(agentUID)) {
-        console.warn(
-          'Agent UID mismatch! Expected:',
-          agentUID,
-          'Available users:',
-          potentialAgents
-        );
-        console.info(
-          `Consider updating NEXT_AGENT_UID to one of: ${potentialAgents.join(
-            ', '
-          )}`
-        );
-      }
-    }
-  }, [remoteUsers, agentUID]);
-
   return (
     <div className="flex flex-col gap-6 p-4 h-full">
       {/* Connection Status - Always show End Conversation button */}
       <div className="absolute top-4 right-4 flex items-center gap-2">
+        <span className="text-xs uppercase text-gray-400">
+          {mode === 'mllm' ? 'Realtime' : 'Cascade'}
+        </span>
+        {agentStatus && (
+          <span
+            className={`text-xs uppercase ${
+              agentStatus === 'RUNNING'
+                ? 'text-green-500'
+                : agentStatus === 'FAILED'
+                ? 'text-red-500'
+                : agentStatus === 'STOPPED'
+                ? 'text-gray-500'
+                : 'text-yellow-500'
+            }`}
+            title="Agent status"
+          >
+            {agentStatus.toLowerCase()}
+          </span>
+        )}
         <button
-          onClick={onEndConversation}
+          onClick={handleEndConversation}
           className="px-4 py-2 bg-transparent text-red-500 rounded-full border border-red-500 backdrop-blur-sm
           hover:bg-red-500 hover:text-black transition-all duration-300 shadow-lg hover:shadow-red-500/20 text-sm font-medium"
         >
@@ -396,12 +456,22 @@ export default function ConversationComponent({
 
       {/* Remote Users Section - Moved to top */}
       <div className="flex-1">
-        {remoteUsers.map((user) => (
-          <div key={user.uid}>
-            <AudioVisualizer track={user.audioTrack} />
-            <RemoteUser user={user} />
-          </div>
-        ))}
+        {remoteUsers.map((user) =>
+          agoraData.avatarUid && user.uid.toString() === agoraData.avatarUid ? (
+            // Video avatar joins as its own user and publishes video
+            <div
+              key={user.uid}
+              className="mx-auto mb-4 w-full max-w-md aspect-video rounded-[15px] overflow-hidden bg-[#171717]"
+            >
+              <RemoteUser user={user} playVideo playAudio />
+            </div>
+          ) : (
+            <div key={user.uid}>
+              <AudioVisualizer track={user.audioTrack} />
+              <RemoteUser user={user} />
+            </div>
+          )
+        )}
 
         {remoteUsers.length === 0 && (
           <div className="text-center text-gray-500 py-8">
@@ -417,14 +487,23 @@ export default function ConversationComponent({
           setIsEnabled={setIsEnabled}
           localMicrophoneTrack={localMicrophoneTrack}
         />
+        <InterruptButton onInterrupt={handleInterrupt} disabled={!agentId} />
         <MicrophoneSelector localMicrophoneTrack={localMicrophoneTrack} />
+        {/* Speak API is not supported for MLLM agents */}
+        {process.env.NEXT_PUBLIC_ENABLE_OPERATOR_CONTROLS === 'true' &&
+          mode !== 'mllm' && <AgentSpeakControl agentId={agentId} />}
+        {IS_RECORDING_ENABLED && (
+          <DownloadRecordingButton onDownload={handleDownloadRecording} />
+        )}
       </div>
 
       {/* Conversation Text Stream component */}
       <ConvoTextStream
         messageList={messageList}
         currentInProgressMessage={currentInProgressMessage}
-        agentUID={agentUID}
+        onSendMessage={agoraData.rtmUserId ? handleSendMessage : undefined}
+        canSendMessage={canSendText}
+        agentName={agentName}
       />
     </div>
   );
@@ -6,20 +6,33 @@ import {
   MessageCircle,
   X,
 } from 'lucide-react';
-import { cn, renderMarkdownToHtml } from '@/lib/utils';
-import { IMessageListItem, EMessageStatus } from '@/lib/message';
+import { cn } from '@/lib/utils';
+import {
+  IMessageListItem,
+  EMessageStatus,
+  EMessageSpeaker,
+} from '@/lib/message';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { MessageComposer } from './MessageComposer';
+import { MessageText, showsWordTiming } from './MessageText';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
 
 interface ConvoTextStreamProps {
   messageList: IMessageListItem[];
   currentInProgressMessage?: IMessageListItem | null;
-  agentUID: string | undefined;
+  // Shows a text input when set, e.g. when RTM is enabled
+  onSendMessage?: (text: string) => Promise<void>;
+  canSendMessage?: boolean;
+  // Names the agent in exported transcripts
+  agentName?: string;
 }
 
 export default function ConvoTextStream({
   messageList,
   currentInProgressMessage = null,
-  agentUID,
+  onSendMessage,
+  canSendMessage = false,
+  agentName,
 }: ConvoTextStreamProps) {
   const isMobile = useIsMobile();
   const [isOpen, setIsOpen] = useState(false);
@@ -38,16 +51,15 @@ export default function ConvoTextStream({
         'ConvoTextStream - Messages:',
         messageList.map((m) => ({
           uid: m.uid,
+          speaker: m.speaker,
           text: m.text,
           status: m.status,
         })),
         'Current in progress:',
-        currentInProgressMessage,
-        'Agent UID:',
-        agentUID
+        currentInProgressMessage
       );
     }
-  }, [messageList, currentInProgressMessage, agentUID]);
+  }, [messageList, currentInProgressMessage]);
 
   // Scroll to bottom function for direct calls
   const scrollToBottom = () => {
@@ -153,12 +165,8 @@ export default function ConvoTextStream({
   };
 
   // Helper to determine if message is from AI
-  const isAIMessage = (message: IMessageListItem) => {
-    // The AI should be uid=0 (agent) OR matching the agentUID if provided
-    return (
-      message.uid === 0 || (agentUID && message.uid.toString() === agentUID)
-    );
-  };
+  const isAIMessage = (message: IMessageListItem) =>
+    message.speaker === EMessageSpeaker.AGENT;
 
   // Combine complete messages with in-progress message for rendering
   const allMessages = [...messageList];
@@ -180,6 +188,7 @@ export default function ConvoTextStream({
         >
           <div className="p-2 flex justify-end items-center shrink-0">
             <h3 className="font-semibold mr-auto ml-2">Transcription</h3>
+            <TranscriptExportMenu messages={messageList} agentName={agentName} />
             <Button variant="ghost" size="icon" onClick={toggleChat}>
               <X className="h-4 w-4" />
             </Button>
@@ -214,7 +223,7 @@ export default function ConvoTextStream({
                   {/* Message content */}
                   <div
                     className={cn(
-                      'flex',
+                      'flex min-w-0 max-w-full',
                       isAIMessage(message)
                         ? 'flex-col items-start'
                         : 'flex-col items-end'
@@ -225,6 +234,7 @@ export default function ConvoTextStream({
                         'rounded-[15px] px-3 py-2',
                         isAIMessage(message) ? 'text-left' : 'text-right',
                         message.status === EMessageStatus.IN_PROGRESS &&
+                          !showsWordTiming(message) &&
                           'animate-pulse'
                       )}
                       style={{
@@ -233,16 +243,24 @@ export default function ConvoTextStream({
                           : '#333333',
                         color: isAIMessage(message) ? '#A0FAFF' : '#FFFFFF',
                       }}
-                      dangerouslySetInnerHTML={{
-                        __html: renderMarkdownToHtml(message.text),
-                      }}
-                    />
+                    >
+                      <MessageText message={message} />
+                    </div>
                   </div>
                 </div>
               ))}
             </div>
           </div>
 
+          {onSendMessage && (
+            <div className="px-4 pt-2 shrink-0">
+              <MessageComposer
+                onSend={onSendMessage}
+                disabled={!canSendMessage}
+              />
+            </div>
+          )}
+
           <div className="p-4 pt-2 shrink-0 flex justify-center">
             <Button
               className="rounded-full px-6 py-2 font-medium hover:scale-105 transition-transform duration-200 border-2"
@@ -0,0 +1,26 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface DownloadRecordingButtonProps {
+  onDownload: () => void;
+}
+
+// Saves the transcript traffic recorded so far, for bug reports
+export function DownloadRecordingButton({
+  onDownload,
+}: DownloadRecordingButtonProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={onDownload}
+      className="rounded-full w-10 h-10 bg-gray-800/50 hover:bg-gray-700/50 backdrop-blur-sm border border-gray-600"
+      title="Download transcript recording"
+      aria-label="Download transcript recording"
+    >
+      <Download className="h-4 w-4 text-white" />
+    </Button>
+  );
+}
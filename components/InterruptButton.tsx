@@ -0,0 +1,26 @@
+'use client';
+
+import { Hand } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface InterruptButtonProps {
+  onInterrupt: () => void;
+  disabled?: boolean;
+}
+
+// Cuts the agent off immediately, for when barging in by voice isn't possible
+export function InterruptButton({ onInterrupt, disabled }: InterruptButtonProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={onInterrupt}
+      disabled={disabled}
+      className="rounded-full w-10 h-10 bg-gray-800/50 hover:bg-gray-700/50 backdrop-blur-sm border border-gray-600"
+      title="Stop talking"
+      aria-label="Stop the agent talking"
+    >
+      <Hand className="h-4 w-4 text-white" />
+    </Button>
+  );
+}
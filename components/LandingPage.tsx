@@ -1,12 +1,25 @@
 'use client';
 
-import { useState, useMemo, Suspense } from 'react';
+import { useState, useMemo, useEffect, Suspense } from 'react';
 import dynamic from 'next/dynamic';
 import ParticleBackground from './ParticleBackground';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
+import type { IMessageListItem } from '@/lib/message';
 import type {
   AgoraTokenData,
   ClientStartRequest,
   AgentResponse,
+  PersonaSummary,
+  PersonaListResponse,
+  AgentMode,
 } from '../types/conversation';
 
 // Dynamically import the ConversationComponent with ssr disabled
@@ -23,10 +36,17 @@ const AgoraProvider = dynamic(
 
     return {
       default: ({ children }: { children: React.ReactNode }) => {
-        const client = useMemo(
-          () => AgoraRTC.createClient({ mode: 'rtc', codec: 'vp8' }),
-          []
-        );
+        const client = useMemo(() => {
+          // The agent sends its audio PTS as audio metadata, WORD mode
+          // transcripts use it to stay in sync with what is being said.
+          // setParameter exists at runtime but isn't in the SDK's typings.
+          (
+            AgoraRTC as typeof AgoraRTC & {
+              setParameter: (key: string, value: unknown) => void;
+            }
+          ).setParameter('ENABLE_AUDIO_METADATA', true);
+          return AgoraRTC.createClient({ mode: 'rtc', codec: 'vp8' });
+        }, []);
         return <AgoraRTCProvider client={client}>{children}</AgoraRTCProvider>;
       },
     };
@@ -34,12 +54,45 @@ const AgoraProvider = dynamic(
   { ssr: false }
 );
 
+// Random non-zero RTC uid, also used as the RTM user id
+function generateUid(): number {
+  return Math.floor(Math.random() * 1_000_000_000) + 1;
+}
+
 export default function LandingPage() {
   const [showConversation, setShowConversation] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [agoraData, setAgoraData] = useState<AgoraTokenData | null>(null);
   const [agentJoinError, setAgentJoinError] = useState(false);
+  const [personas, setPersonas] = useState<PersonaSummary[]>([]);
+  const [personaId, setPersonaId] = useState<string | undefined>(undefined);
+  const [mode, setMode] = useState<AgentMode>('cascade');
+  // Finished turns of the last call, kept so they can still be exported
+  const [lastTranscript, setLastTranscript] = useState<IMessageListItem[]>([]);
+  // Realtime (MLLM) mode needs an OpenAI Realtime key on the server
+  const isMLLMEnabled = process.env.NEXT_PUBLIC_ENABLE_MLLM === 'true';
+  const agentName = personas.find((persona) => persona.id === personaId)?.name;
+
+  // Load the personas available in this deployment
+  useEffect(() => {
+    const fetchPersonas = async () => {
+      try {
+        const response = await fetch('/api/personas');
+        if (!response.ok) {
+          throw new Error(`Failed to load personas: ${response.statusText}`);
+        }
+        const data: PersonaListResponse = await response.json();
+        setPersonas(data.personas);
+        setPersonaId(data.default_persona_id);
+      } catch (err) {
+        // The server falls back to its default persona
+        console.warn('Error loading personas:', err);
+      }
+    };
+
+    fetchPersonas();
+  }, []);
 
   const handleStartConversation = async () => {
     setIsLoading(true);
@@ -49,7 +102,12 @@ export default function LandingPage() {
     try {
       // First, get the Agora token
       console.log('Fetching Agora token...');
-      const agoraResponse = await fetch('/api/generate-agora-token');
+      // RTM needs a known, non-zero user id, so pick the uid up front
+      const tokenUrl =
+        process.env.NEXT_PUBLIC_ENABLE_RTM === 'true'
+          ? `/api/generate-agora-token?rtm=true&uid=${generateUid()}`
+          : '/api/generate-agora-token';
+      const agoraResponse = await fetch(tokenUrl);
       const responseData = await agoraResponse.json();
       console.log('Agora API response:', responseData);
 
@@ -65,6 +123,8 @@ export default function LandingPage() {
         channel_name: responseData.channel,
         input_modalities: ['text'],
         output_modalities: ['text', 'audio'],
+        persona_id: personaId,
+        mode,
       };
 
       try {
@@ -83,6 +143,10 @@ export default function LandingPage() {
           setAgoraData({
             ...responseData,
             agentId: agentData.agent_id,
+            agentUid: agentData.agent_uid,
+            avatarUid: agentData.avatar_uid,
+            sessionId: agentData.session_id,
+            sessionToken: agentData.session_token,
           });
         }
       } catch (err) {
@@ -102,7 +166,8 @@ export default function LandingPage() {
   const handleTokenWillExpire = async (uid: string) => {
     try {
       const response = await fetch(
-        `/api/generate-agora-token?channel=${agoraData?.channel}&uid=${uid}`
+        `/api/generate-agora-token?channel=${agoraData?.channel}&uid=${uid}` +
+          (agoraData?.rtmUserId ? '&rtm=true' : '')
       );
       const data = await response.json();
 
@@ -134,6 +199,47 @@ export default function LandingPage() {
           )}
           {!showConversation ? (
             <>
+              {personas.length > 1 && (
+                <div className="mb-6 w-64 mx-auto">
+                  <Select value={personaId} onValueChange={setPersonaId}>
+                    <SelectTrigger
+                      className="rounded-full bg-black border-gray-600 text-white"
+                      aria-label="Select agent persona"
+                    >
+                      <SelectValue placeholder="Choose an agent" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-900 border-gray-700 text-white">
+                      {personas.map((persona) => (
+                        <SelectItem key={persona.id} value={persona.id}>
+                          {persona.name} — {persona.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {isMLLMEnabled && (
+                <ToggleGroup
+                  type="single"
+                  value={mode}
+                  onValueChange={(value) => value && setMode(value as AgentMode)}
+                  className="mb-6"
+                  aria-label="Select agent mode"
+                >
+                  <ToggleGroupItem
+                    value="cascade"
+                    className="rounded-full px-4 data-[state=on]:bg-[#00c2ff] data-[state=on]:text-black"
+                  >
+                    Cascade
+                  </ToggleGroupItem>
+                  <ToggleGroupItem
+                    value="mllm"
+                    className="rounded-full px-4 data-[state=on]:bg-[#00c2ff] data-[state=on]:text-black"
+                  >
+                    Realtime
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              )}
               <button
                 onClick={handleStartConversation}
                 disabled={isLoading}
@@ -144,6 +250,15 @@ export default function LandingPage() {
                 {isLoading ? 'Starting...' : 'Try it now!'}
               </button>
               {error && <p className="mt-4 text-destructive">{error}</p>}
+              {lastTranscript.length > 0 && (
+                <div className="mt-6">
+                  <TranscriptExportMenu
+                    messages={lastTranscript}
+                    agentName={agentName}
+                    label="Download last transcript"
+                  />
+                </div>
+              )}
             </>
           ) : agoraData ? (
             <>
@@ -157,8 +272,14 @@ export default function LandingPage() {
                 <AgoraProvider>
                   <ConversationComponent
                     agoraData={agoraData}
+                    personaId={personaId}
+                    agentName={agentName}
+                    mode={mode}
                     onTokenWillExpire={handleTokenWillExpire}
-                    onEndConversation={() => setShowConversation(false)}
+                    onEndConversation={(messages) => {
+                      setLastTranscript(messages);
+                      setShowConversation(false);
+                    }}
                   />
                 </AgoraProvider>
               </Suspense>
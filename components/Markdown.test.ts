@@ -0,0 +1,59 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { Markdown } from '@/components/Markdown';
+
+const render = (text: string, isStreaming = false) =>
+  renderToStaticMarkup(createElement(Markdown, { text, isStreaming }));
+
+describe('Markdown', () => {
+  it('escapes HTML instead of rendering it', () => {
+    const html = render(
+      'Hi <script>alert(1)</script> <img src=x onerror="alert(1)">'
+    );
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('drops javascript: links', () => {
+    expect(render('[click](javascript:alert(1))')).not.toContain(
+      'javascript:'
+    );
+  });
+
+  it('opens links in a new tab without access to the opener', () => {
+    expect(render('[Agora](https://agora.io)')).toContain(
+      '<a href="https://agora.io" target="_blank" rel="noopener noreferrer">'
+    );
+  });
+
+  it('highlights fenced code blocks', () => {
+    const html = render('```ts\nconst answer = 42;\n```');
+
+    expect(html).toContain('<pre><code class="hljs language-ts">');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  it('renders tables and nested lists', () => {
+    const html = render(
+      '| a | b |\n| - | - |\n| 1 | 2 |\n\n- one\n  - nested\n- two'
+    );
+
+    expect(html).toContain('<table>');
+    expect(html).toMatch(/<li>one\s*<ul>\s*<li>nested<\/li>/);
+  });
+
+  it('keeps sentences with numbers intact', () => {
+    expect(render('Version 2. Then 3. apples')).toBe(
+      '<div class="markdown"><p>Version 2. Then 3. apples</p></div>'
+    );
+  });
+
+  it('renders bold that is still streaming', () => {
+    expect(render('This is **impor', true)).toContain(
+      '<strong>impor</strong>'
+    );
+  });
+});
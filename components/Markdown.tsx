@@ -0,0 +1,41 @@
+'use client';
+
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { completePartialMarkdown } from '@/lib/markdown';
+
+// Raw HTML in the text is never rendered, react-markdown escapes it and
+// drops unsafe link protocols such as javascript:
+const components: Components = {
+  a: ({ node: _node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer" />
+  ),
+  // Wide tables scroll instead of stretching the chat bubble
+  table: ({ node: _node, ...props }) => (
+    <div className="markdown-table">
+      <table {...props} />
+    </div>
+  ),
+};
+
+interface MarkdownProps {
+  text: string;
+  // Closes constructs cut off mid-stream, see completePartialMarkdown
+  isStreaming?: boolean;
+}
+
+// Renders agent transcripts as GitHub flavored Markdown with highlighted code
+export function Markdown({ text, isStreaming = false }: MarkdownProps) {
+  return (
+    <div className="markdown">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeHighlight]}
+        components={components}
+      >
+        {isStreaming ? completePartialMarkdown(text) : text}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { SendHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface MessageComposerProps {
+  onSend: (text: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Lets the user type to the agent instead of speaking
+export function MessageComposer({ onSend, disabled }: MessageComposerProps) {
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedText = text.trim();
+  const canSend = !disabled && !isSending && trimmedText.length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSend) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await onSend(trimmedText);
+      setText('');
+    } catch (err) {
+      console.error('Failed to send message:', err);
+      setError('Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={disabled ? 'Connecting...' : 'Type a message'}
+          disabled={disabled}
+          className="rounded-full bg-gray-800/50 border-gray-600 text-white"
+          aria-label="Message to the agent"
+        />
+        <Button
+          type="submit"
+          variant="ghost"
+          size="icon"
+          disabled={!canSend}
+          className="rounded-full shrink-0 bg-gray-800/50 hover:bg-gray-700/50 border border-gray-600"
+          aria-label="Send message"
+        >
+          <SendHorizontal className="h-4 w-4 text-white" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-400 px-3">{error}</p>}
+    </form>
+  );
+}
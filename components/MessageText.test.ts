@@ -0,0 +1,56 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { MessageText } from '@/components/MessageText';
+import {
+  EMessageSpeaker,
+  EMessageStatus,
+  type IMessageListItem,
+} from '@/lib/message';
+
+const text = 'Run `pnpm dev`';
+
+const render = (status: EMessageStatus, words = true, body = text) => {
+  const message: IMessageListItem = {
+    uid: 1,
+    turn_id: 1,
+    text: body,
+    status,
+    speaker: EMessageSpeaker.AGENT,
+    timestamp: 0,
+    words: words
+      ? ['Run ', '`pnpm dev`'].map((word, index) => ({
+          word,
+          start_ms: index * 200,
+          duration_ms: 200,
+          stable: true,
+          word_status: status,
+        }))
+      : undefined,
+  };
+  return renderToStaticMarkup(createElement(MessageText, { message }));
+};
+
+describe('MessageText', () => {
+  it('shows a word-timed turn word by word while it is spoken', () => {
+    expect(render(EMessageStatus.IN_PROGRESS)).toContain('`pnpm dev`');
+  });
+
+  it('renders a finished word-timed turn as Markdown', () => {
+    expect(render(EMessageStatus.END)).toContain('<code>pnpm dev</code>');
+  });
+
+  it('keeps interrupted turns word by word to strike out the rest', () => {
+    expect(render(EMessageStatus.INTERRUPTED)).toContain('line-through');
+  });
+
+  it('renders agent turns without word timing as Markdown', () => {
+    expect(render(EMessageStatus.END, false)).toContain('<code>');
+  });
+
+  it('closes code cut off in a streaming turn without word timing', () => {
+    const html = render(EMessageStatus.IN_PROGRESS, false, 'Run `pnpm dev');
+
+    expect(html).toContain('<code>pnpm dev</code>');
+  });
+});
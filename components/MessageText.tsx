@@ -0,0 +1,47 @@
+'use client';
+
+import {
+  EMessageSpeaker,
+  EMessageStatus,
+  IMessageListItem,
+} from '@/lib/message';
+import { TranscriptWords } from './TranscriptWords';
+import { Markdown } from './Markdown';
+
+/**
+ * Whether the turn is shown word by word: WORD mode agent turns while they
+ * are spoken, and interrupted ones so the unsaid words stay struck through.
+ * Finished turns keep their words but render as Markdown.
+ */
+export const showsWordTiming = (
+  message: IMessageListItem
+): message is IMessageListItem & {
+  words: NonNullable<IMessageListItem['words']>;
+} =>
+  !!message.words &&
+  message.words.length > 0 &&
+  message.status !== EMessageStatus.END;
+
+// Text of one transcript bubble
+export function MessageText({ message }: { message: IMessageListItem }) {
+  if (showsWordTiming(message)) {
+    return (
+      <TranscriptWords
+        words={message.words}
+        isSpeaking={message.status === EMessageStatus.IN_PROGRESS}
+      />
+    );
+  }
+
+  if (message.speaker === EMessageSpeaker.AGENT) {
+    return (
+      <Markdown
+        text={message.text}
+        isStreaming={message.status === EMessageStatus.IN_PROGRESS}
+      />
+    );
+  }
+
+  // User speech and typed text is shown as written
+  return <span className="whitespace-pre-wrap">{message.text}</span>;
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import ConvoTextStream from './ConvoTextStream';
+import { useConversationTranscript } from '@/hooks/use-conversation-transcript';
+import { EMessageSpeaker } from '@/lib/message';
+import {
+  IMessageRecording,
+  ReplayRTCClient,
+  parseRecording,
+  replayRecording,
+} from '@/lib/message-recording';
+
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+/**
+ * Loads a recording saved with the download button in a conversation and
+ * plays it back through a MessageEngine, so transcript rendering issues can
+ * be reproduced without a live agent.
+ */
+export default function ReplayViewer() {
+  const [recording, setRecording] = useState<IMessageRecording | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // A new client per run gives every replay a fresh engine
+  const [client, setClient] = useState<ReplayRTCClient | null>(null);
+
+  const { messages, inProgress, mode } = useConversationTranscript(
+    client?.asClient() ?? null,
+    { agentUid: recording?.agent_uid ?? undefined }
+  );
+  const currentInProgressMessage =
+    inProgress[EMessageSpeaker.AGENT] ?? inProgress[EMessageSpeaker.USER];
+
+  // Each new client starts a run with the recording and speed picked then.
+  // Declared after the hook so the engine is listening before events arrive.
+  useEffect(() => {
+    if (!client || !recording) return;
+
+    setIsPlaying(true);
+    const replay = replayRecording(recording, client, { speed });
+    replay.finished.then(() => setIsPlaying(false));
+    return () => replay.stop();
+  }, [client]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setClient(null);
+    try {
+      setRecording(parseRecording(await file.text()));
+      setError(null);
+    } catch (err) {
+      setRecording(null);
+      setError(err instanceof Error ? err.message : 'Failed to read recording');
+    }
+  };
+
+  const durationSeconds = recording?.events.length
+    ? recording.events[recording.events.length - 1].at / 1000
+    : 0;
+
+  return (
+    <div className="min-h-screen p-8 text-white space-y-4 max-w-xl">
+      <h1 className="text-2xl font-semibold">Transcript replay</h1>
+      <input
+        type="file"
+        accept="application/json"
+        onChange={handleFileChange}
+        aria-label="Recording file"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {recording && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">
+            Recorded {recording.started_at}, {recording.events.length} events
+            over {durationSeconds.toFixed(1)}s, agent uid{' '}
+            {recording.agent_uid ?? 'unknown'}
+          </p>
+          <div className="flex items-center gap-2">
+            {REPLAY_SPEEDS.map((s) => (
+              <Button
+                key={s}
+                variant={s === speed ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSpeed(s)}
+                disabled={isPlaying}
+              >
+                {s}x
+              </Button>
+            ))}
+            {isPlaying ? (
+              <Button size="sm" onClick={() => setClient(null)}>
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => setClient(new ReplayRTCClient())}>
+                Play
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-gray-400">
+            Mode: {mode}, {messages.length} finished turns
+          </p>
+        </div>
+      )}
+
+      <ConvoTextStream
+        messageList={messages}
+        currentInProgressMessage={currentInProgressMessage}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  getOperatorHeaders,
+  getOperatorSecret,
+  setOperatorSecret,
+} from '@/lib/operator';
+import { Markdown } from './Markdown';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
+import { fromTranscriptTurns } from '@/lib/transcript-export';
+import type {
+  SessionListResponse,
+  SessionRecord,
+  SessionSummary,
+} from '@/types/conversation';
+
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+// Long pauses are shortened so a replay doesn't sit idle
+const MAX_REPLAY_GAP_MS = 3000;
+
+// The sessions API is for operators only, see NEXT_OPERATOR_SECRET
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: getOperatorHeaders() });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || response.statusText);
+  }
+  return data;
+}
+
+function formatTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : 'not saved';
+}
+
+/**
+ * Lists stored conversations and shows the transcript of the selected one.
+ * Replay reveals the turns with the pauses between them, sped up.
+ */
+export default function SessionHistory() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [session, setSession] = useState<SessionRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [speed, setSpeed] = useState(5);
+  // Number of turns shown while replaying, null shows all of them
+  const [replayCount, setReplayCount] = useState<number | null>(null);
+  const [secret, setSecret] = useState('');
+
+  const loadSessions = () => {
+    setSession(null);
+    fetchJson<SessionListResponse>('/api/sessions')
+      .then((data) => {
+        setSessions(data.sessions);
+        setError(null);
+      })
+      .catch((err) => {
+        setSessions([]);
+        setError(err.message);
+      });
+  };
+
+  useEffect(() => {
+    setSecret(getOperatorSecret());
+    loadSessions();
+  }, []);
+
+  const handleUnlock = (event: React.FormEvent) => {
+    event.preventDefault();
+    setOperatorSecret(secret);
+    loadSessions();
+  };
+
+  const handleSelect = async (agentId: string) => {
+    setReplayCount(null);
+    try {
+      setSession(
+        await fetchJson<SessionRecord>(
+          `/api/sessions/${encodeURIComponent(agentId)}`
+        )
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session');
+    }
+  };
+
+  // Shows the next turn after the pause that preceded it
+  useEffect(() => {
+    if (!session || replayCount === null) return;
+    if (replayCount >= session.turns.length) {
+      setReplayCount(null);
+      return;
+    }
+
+    const previous = session.turns[replayCount - 1];
+    const gap = previous
+      ? Date.parse(session.turns[replayCount].timestamp) -
+        Date.parse(previous.timestamp)
+      : 0;
+    const timer = setTimeout(
+      () => setReplayCount(replayCount + 1),
+      Math.min(Math.max(gap, 0), MAX_REPLAY_GAP_MS) / speed
+    );
+    return () => clearTimeout(timer);
+  }, [session, replayCount, speed]);
+
+  const isReplaying = replayCount !== null;
+  const turns = session
+    ? session.turns.slice(0, replayCount ?? session.turns.length)
+    : [];
+
+  return (
+    <div className="min-h-screen p-8 text-white flex flex-col gap-6 md:flex-row">
+      <div className="md:w-80 shrink-0 space-y-3">
+        <h1 className="text-2xl font-semibold">Conversation history</h1>
+        <form onSubmit={handleUnlock} className="flex gap-2">
+          <Input
+            type="password"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder="Operator secret"
+            className="bg-black border-gray-700 text-white"
+          />
+          <Button type="submit" variant="outline" className="text-black">
+            Load
+          </Button>
+        </form>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!error && sessions.length === 0 && (
+          <p className="text-sm text-gray-400">No conversations stored yet.</p>
+        )}
+        <ul className="space-y-2">
+          {sessions.map((item) => (
+            <li key={item.agent_id}>
+              <button
+                onClick={() => handleSelect(item.agent_id)}
+                className={cn(
+                  'w-full text-left rounded-lg border border-gray-700 px-3 py-2 hover:bg-gray-800',
+                  session?.agent_id === item.agent_id && 'bg-gray-800'
+                )}
+              >
+                <div className="font-medium">
+                  {item.persona.name}{' '}
+                  <span className="text-xs text-gray-400">{item.mode}</span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  {formatTime(item.started_at)}, {item.turn_count} turns
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {session && (
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-xl font-semibold mr-auto">
+              {session.persona.name} in {session.channel}
+            </h2>
+            {REPLAY_SPEEDS.map((s) => (
+              <Button
+                key={s}
+                variant={s === speed ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSpeed(s)}
+              >
+                {s}x
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              onClick={() => setReplayCount(isReplaying ? null : 0)}
+              disabled={session.turns.length === 0}
+            >
+              {isReplaying ? 'Stop' : 'Replay'}
+            </Button>
+            <TranscriptExportMenu
+              messages={fromTranscriptTurns(session.turns)}
+              agentName={session.persona.name}
+            />
+          </div>
+          <p className="text-sm text-gray-400">
+            Agent {session.agent_id}, started {formatTime(session.started_at)},
+            stopped {formatTime(session.stopped_at)}
+          </p>
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-400">
+              Configuration
+            </summary>
+            <pre className="mt-2 overflow-auto rounded-lg bg-gray-900 p-3">
+              {JSON.stringify(session.config, null, 2)}
+            </pre>
+          </details>
+
+          <div className="space-y-4">
+            {turns.map((turn) => (
+              <div
+                key={`${turn.turn_id}-${turn.speaker}`}
+                className={cn(
+                  'rounded-[15px] px-3 py-2 max-w-2xl',
+                  turn.speaker === 'agent'
+                    ? 'text-[#A0FAFF]'
+                    : 'ml-auto bg-[#333333]'
+                )}
+              >
+                <div className="text-xs text-gray-400 mb-1">
+                  {turn.speaker === 'agent' ? session.persona.name : 'User'}
+                  {turn.status === 'interrupted' && ', interrupted'}
+                </div>
+                {turn.speaker === 'agent' ? (
+                  <Markdown text={turn.text} />
+                ) : (
+                  <span className="whitespace-pre-wrap">{turn.text}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { IMessageListItem } from '@/lib/message';
+import {
+  ETranscriptExportFormat,
+  downloadTranscript,
+} from '@/lib/transcript-export';
+
+const EXPORT_FORMATS = [
+  { format: ETranscriptExportFormat.MARKDOWN, name: 'Markdown (.md)' },
+  { format: ETranscriptExportFormat.JSON, name: 'JSON (.json)' },
+  { format: ETranscriptExportFormat.SRT, name: 'Subtitles (.srt)' },
+  { format: ETranscriptExportFormat.WEBVTT, name: 'Subtitles (.vtt)' },
+];
+
+interface TranscriptExportMenuProps {
+  messages: IMessageListItem[];
+  agentName?: string;
+  // Shows a labelled button instead of an icon
+  label?: string;
+}
+
+// Downloads the finished turns of a conversation in the picked format
+export function TranscriptExportMenu({
+  messages,
+  agentName,
+  label,
+}: TranscriptExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={label ? 'outline' : 'ghost'}
+          size={label ? 'sm' : 'icon'}
+          className={label ? 'rounded-full bg-black border-gray-600' : undefined}
+          disabled={messages.length === 0}
+          title="Export transcript"
+          aria-label="Export transcript"
+        >
+          <FileDown className="h-4 w-4" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="bg-gray-900 border-gray-700 text-white"
+      >
+        {EXPORT_FORMATS.map(({ format, name }) => (
+          <DropdownMenuItem
+            key={format}
+            className="cursor-pointer"
+            onClick={() => downloadTranscript(format, messages, { agentName })}
+          >
+            {name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { EMessageStatus, TMessageEngineObjectWord } from '@/lib/message';
+
+interface TranscriptWordsProps {
+  words: TMessageEngineObjectWord[];
+  // Highlights the last word, the one the agent is saying right now
+  isSpeaking: boolean;
+}
+
+// Renders a WORD mode agent turn karaoke style, in sync with the agent's audio
+export function TranscriptWords({ words, isSpeaking }: TranscriptWordsProps) {
+  const currentWordIndex = isSpeaking ? words.length - 1 : -1;
+
+  return (
+    <span className="whitespace-pre-wrap">
+      {words.map((word, index) => (
+        <span
+          key={`${word.start_ms}-${index}`}
+          className={cn(
+            'transition-colors duration-150',
+            index === currentWordIndex &&
+              'rounded bg-[#A0FAFF]/25 text-white',
+            word.word_status === EMessageStatus.INTERRUPTED &&
+              'line-through opacity-60'
+          )}
+        >
+          {word.word}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,61 @@
+import * as React from 'react';
+import type { AgentStatus, AgentStatusResponse } from '@/types/conversation';
+
+const DEFAULT_POLL_INTERVAL = 3000; // milliseconds
+// Once an agent reaches one of these states it will not change again
+const TERMINAL_STATUSES: AgentStatus[] = ['STOPPED', 'FAILED'];
+
+/**
+ * Polls /api/agents/[id] and returns the agent's status as seen by the
+ * Conversational AI service. Polling stops once the agent is stopped or failed,
+ * and restarts when agentId changes.
+ */
+export function useAgentStatus(
+  agentId: string | undefined,
+  interval: number = DEFAULT_POLL_INTERVAL
+) {
+  const [status, setStatus] = React.useState<AgentStatus | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setStatus(null);
+    setError(null);
+    if (!agentId) return;
+
+    let isCancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      let nextStatus: AgentStatus | null = null;
+      try {
+        const response = await fetch(`/api/agents/${agentId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || response.statusText);
+        }
+        nextStatus = (data as AgentStatusResponse).status;
+        if (!isCancelled) {
+          setStatus(nextStatus);
+          setError(null);
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to query agent');
+        }
+      }
+
+      if (!isCancelled && !(nextStatus && TERMINAL_STATUSES.includes(nextStatus))) {
+        timer = setTimeout(poll, interval);
+      }
+    };
+
+    poll();
+
+    return () => {
+      isCancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [agentId, interval]);
+
+  return { status, error };
+}
@@ -0,0 +1,136 @@
+import * as React from 'react';
+import type { IAgoraRTCClient } from 'agora-rtc-react';
+import {
+  EMessageEngineMode,
+  EMessageSpeaker,
+  EMessageStatus,
+  MessageEngine,
+  type IMessageListItem,
+  type MessageEngineError,
+} from '@/lib/message';
+
+interface UseConversationTranscriptOptions {
+  // Only listen while this is true, e.g. once the client has joined
+  enabled?: boolean;
+  // RTC uid of the agent, stream messages from other uids are ignored
+  agentUid?: string;
+  // Render mode of the engine, AUTO picks WORD or TEXT from the first transcript
+  mode?: EMessageEngineMode;
+  legacyMode?: boolean;
+  // Record the raw RTC traffic for replay, see getRecording
+  record?: boolean;
+}
+
+type InProgressTurns = Record<EMessageSpeaker, IMessageListItem | null>;
+
+const NO_IN_PROGRESS_TURNS: InProgressTurns = {
+  [EMessageSpeaker.AGENT]: null,
+  [EMessageSpeaker.USER]: null,
+};
+
+/**
+ * Runs a MessageEngine on the RTC client and returns the conversation
+ * transcript. Finished turns (completed or interrupted) are sorted by turn_id,
+ * the latest in-progress turn is returned separately for each speaker.
+ *
+ * Each effect run creates its own engine and disposes it on cleanup, so the
+ * StrictMode double mount never leaves two engines listening to the client.
+ * The transcript is cleared whenever the engine is recreated.
+ */
+export function useConversationTranscript(
+  client: IAgoraRTCClient | null,
+  {
+    enabled = true,
+    agentUid,
+    mode = EMessageEngineMode.AUTO,
+    legacyMode = false,
+    record = false,
+  }: UseConversationTranscriptOptions = {}
+) {
+  const [messages, setMessages] = React.useState<IMessageListItem[]>([]);
+  const [inProgress, setInProgress] =
+    React.useState<InProgressTurns>(NO_IN_PROGRESS_TURNS);
+  const [engineMode, setEngineMode] = React.useState(mode);
+  const [error, setError] = React.useState<MessageEngineError | null>(null);
+  const engineRef = React.useRef<MessageEngine | null>(null);
+  // Read when the engine is created, without recreating it on change
+  const agentUidRef = React.useRef(agentUid);
+
+  React.useEffect(() => {
+    setMessages([]);
+    setInProgress(NO_IN_PROGRESS_TURNS);
+    setEngineMode(mode);
+    setError(null);
+    if (!client || !enabled) return;
+
+    const engine = new MessageEngine(client, mode, (messageList) => {
+      const sortedMessages = [...messageList].sort(
+        (a, b) => a.turn_id - b.turn_id
+      );
+      const nextInProgress = { ...NO_IN_PROGRESS_TURNS };
+      for (const message of sortedMessages) {
+        if (message.status === EMessageStatus.IN_PROGRESS) {
+          nextInProgress[message.speaker] = message;
+        }
+      }
+
+      setMessages(
+        sortedMessages.filter((m) => m.status !== EMessageStatus.IN_PROGRESS)
+      );
+      setInProgress(nextInProgress);
+      setEngineMode(engine.mode);
+    });
+    engine.onError = (engineError) => {
+      console.error(
+        `MessageEngine error (${engineError.code}):`,
+        engineError.message
+      );
+      setError(engineError);
+    };
+    engine.setAgentUid(agentUidRef.current);
+    engine.start({ legacyMode });
+    if (record) {
+      engine.startRecording();
+    }
+    engineRef.current = engine;
+
+    return () => {
+      engine.dispose();
+      if (engineRef.current === engine) {
+        engineRef.current = null;
+      }
+    };
+  }, [client, enabled, mode, legacyMode, record]);
+
+  React.useEffect(() => {
+    agentUidRef.current = agentUid;
+    engineRef.current?.setAgentUid(agentUid);
+  }, [agentUid]);
+
+  // Adds a typed message from the local user as a finished turn
+  const addUserTextMessage = React.useCallback((text: string, uid: number) => {
+    engineRef.current?.addUserTextMessage(text, uid);
+  }, []);
+
+  // Marks the agent's in-progress turn as interrupted, returns false if none
+  const interruptAgentTurn = React.useCallback(
+    () => engineRef.current?.interruptAgentTurn() ?? false,
+    []
+  );
+
+  // The RTC traffic recorded since the engine started, null unless recording
+  const getRecording = React.useCallback(
+    () => engineRef.current?.getRecording() ?? null,
+    []
+  );
+
+  return {
+    messages,
+    inProgress,
+    mode: engineMode,
+    error,
+    addUserTextMessage,
+    interruptAgentTurn,
+    getRecording,
+  };
+}
@@ -0,0 +1,147 @@
+import * as React from 'react';
+import type { RTMClient } from 'agora-rtm';
+import type { PresenceState } from '@/types/conversation';
+
+interface UseRTMClientOptions {
+  appId: string;
+  channel: string;
+  // RTM user id and a token with RTM privileges, see rtm=true on
+  // /api/generate-agora-token. The client stays disconnected without them.
+  userId?: string;
+  token?: string;
+}
+
+/**
+ * Logs in to Agora RTM (Signaling) and subscribes to the conversation's
+ * channel, so presence state can be shared with an agent started with
+ * advanced_features.enable_rtm. Logs out on unmount or when the user or
+ * channel changes. Token renewals go through renewToken and don't reconnect.
+ */
+export function useRTMClient({
+  appId,
+  channel,
+  userId,
+  token,
+}: UseRTMClientOptions) {
+  const [client, setClient] = React.useState<RTMClient | null>(null);
+  const [isConnected, setIsConnected] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const tokenRef = React.useRef(token);
+  tokenRef.current = token;
+
+  React.useEffect(() => {
+    setError(null);
+    if (!userId || !tokenRef.current) return;
+
+    let isCancelled = false;
+    let rtm: RTMClient | null = null;
+
+    const handleLinkState = (event: { currentState: string }) => {
+      if (!isCancelled) {
+        setIsConnected(event.currentState === 'CONNECTED');
+      }
+    };
+
+    const connect = async () => {
+      try {
+        // The SDK touches browser globals on import, so load it lazily
+        const { default: AgoraRTM } = await import('agora-rtm');
+        if (isCancelled) return;
+
+        rtm = new AgoraRTM.RTM(appId, userId);
+        rtm.addEventListener('linkState', handleLinkState);
+        await rtm.login({ token: tokenRef.current });
+        await rtm.subscribe(channel, { withPresence: true });
+
+        if (!isCancelled) {
+          setClient(rtm);
+          setIsConnected(true);
+        }
+      } catch (err) {
+        console.error('Failed to connect to RTM:', err);
+        if (!isCancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to connect to RTM'
+          );
+        }
+      }
+    };
+
+    connect();
+
+    return () => {
+      isCancelled = true;
+      setClient(null);
+      setIsConnected(false);
+      if (rtm) {
+        rtm.removeEventListener('linkState', handleLinkState);
+        rtm.logout().catch((err) => console.warn('RTM logout failed:', err));
+      }
+    };
+  }, [appId, channel, userId]);
+
+  /**
+   * Publishes presence state for this user on the channel. Keys are merged
+   * with previously published state, undefined values are skipped.
+   */
+  const publishPresence = React.useCallback(
+    async (state: PresenceState) => {
+      if (!client) return;
+
+      const entries = Object.entries(state).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined
+      );
+      if (entries.length === 0) return;
+
+      await client.presence.setState(
+        channel,
+        'MESSAGE',
+        Object.fromEntries(entries)
+      );
+    },
+    [client, channel]
+  );
+
+  // Removes the given presence keys, or all of them when none are given
+  const clearPresence = React.useCallback(
+    async (keys?: (keyof PresenceState)[]) => {
+      if (!client) return;
+      await client.presence.removeState(channel, 'MESSAGE', {
+        states: keys?.map(String),
+      });
+    },
+    [client, channel]
+  );
+
+  // Sends a direct message to another RTM user, e.g. the agent
+  const sendMessage = React.useCallback(
+    async (userId: string, message: string, customType?: string) => {
+      if (!client) {
+        throw new Error('RTM is not connected');
+      }
+      await client.publish(userId, message, {
+        channelType: 'USER',
+        customType,
+      });
+    },
+    [client]
+  );
+
+  const renewToken = React.useCallback(
+    async (newToken: string) => {
+      if (!client) return;
+      await client.renewToken(newToken);
+    },
+    [client]
+  );
+
+  return {
+    client,
+    isConnected,
+    error,
+    publishPresence,
+    clearPresence,
+    sendMessage,
+    renewToken,
+  };
+}
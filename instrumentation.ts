@@ -0,0 +1,51 @@
+export async function register() {
+  // Load and validate prompt files once at server startup so a broken
+  // prompt fails fast instead of on the first conversation
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getPromptRegistry, getPrompt } = await import('@/lib/prompts');
+    const { getDefaultPersonaId, listPersonas } = await import(
+      '@/lib/personas'
+    );
+    const registry = getPromptRegistry();
+    registry.forEach((versions, name) => {
+      console.log(
+        `Loaded prompt "${name}" versions:`,
+        versions.map((p) => p.version).join(', ')
+      );
+    });
+
+    // Every persona must point at a prompt that exists
+    for (const persona of listPersonas()) {
+      getPrompt(persona.prompt.name, persona.prompt.version);
+      persona.prompt.allowed_versions?.forEach((version) =>
+        getPrompt(persona.prompt.name, version)
+      );
+    }
+
+    const defaultPersona = process.env.NEXT_DEFAULT_PERSONA;
+    if (defaultPersona && defaultPersona !== getDefaultPersonaId()) {
+      console.warn(
+        `NEXT_DEFAULT_PERSONA "${defaultPersona}" is not enabled, using "${getDefaultPersonaId()}".`
+      );
+    }
+
+    // Report incomplete env config up front, the routes fail with the
+    // same errors when a conversation is started
+    const { getConfigStatus } = await import('@/lib/config');
+    getConfigStatus()
+      .sections.filter((section) => !section.ready)
+      .forEach((section) => {
+        const name = section.vendor
+          ? `${section.name} (${section.vendor})`
+          : section.name;
+        const problems = [
+          section.missing.length > 0 &&
+            `Missing: ${section.missing.join(', ')}.`,
+          ...section.invalid.map(
+            (issue) => `Invalid ${issue.key}: ${issue.message}.`
+          ),
+        ].filter(Boolean);
+        console.warn(`Config section "${name}" is not ready.`, ...problems);
+      });
+  }
+}
@@ -0,0 +1,20 @@
+import { AgoraConfig } from '@/lib/config';
+
+// Basic Auth header built from the customer ID and secret
+export function getAuthorizationHeader(config: AgoraConfig) {
+  const plainCredential = `${config.customerId}:${config.customerSecret}`;
+  const encodedCredential = Buffer.from(plainCredential).toString('base64');
+  return `Basic ${encodedCredential}`;
+}
+
+// URL for an agent-scoped endpoint, e.g. /agents/{agentId}/leave
+export function getAgentUrl(
+  config: AgoraConfig,
+  agentId: string,
+  action?: string
+) {
+  const url = `${config.baseUrl}/${config.appId}/agents/${encodeURIComponent(
+    agentId
+  )}`;
+  return action ? `${url}/${action}` : url;
+}
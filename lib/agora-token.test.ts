@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { buildRtcToken } from '@/lib/agora-token';
+
+const agora = {
+  appId: '0123456789abcdef0123456789abcdef',
+  appCertificate: 'fedcba9876543210fedcba9876543210',
+};
+
+describe('buildRtcToken', () => {
+  it('builds uid, user account and RTM tokens', () => {
+    for (const token of [
+      buildRtcToken(agora, { channel: 'demo', uid: 12 }),
+      buildRtcToken(agora, { channel: 'demo', uid: 'bob', account: true }),
+      buildRtcToken(agora, { channel: 'demo', uid: '12', rtm: true }),
+    ]) {
+      // AccessToken2 tokens start with their version
+      expect(token).toMatch(/^007/);
+    }
+  });
+});
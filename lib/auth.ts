@@ -0,0 +1,31 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getOperatorConfig } from '@/lib/config';
+
+// Checks the Authorization: Bearer header in constant time
+export function hasBearerToken(request: Request, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  );
+}
+
+/**
+ * Guards operator-only routes. Returns the response to send when the
+ * request may not go on: 503 while NEXT_OPERATOR_SECRET is unset, 401
+ * without the secret.
+ */
+export function checkOperatorAuth(request: Request): NextResponse | null {
+  const { secret } = getOperatorConfig();
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Operator routes are disabled, set NEXT_OPERATOR_SECRET' },
+      { status: 503 }
+    );
+  }
+  if (!hasBearerToken(request, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
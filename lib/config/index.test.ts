@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ASRVendor } from '@/types/conversation';
+
+// The env is read once per module, import a fresh copy after stubbing it
+async function loadConfig(env: Record<string, string>) {
+  for (const [key, value] of Object.entries(env)) {
+    vi.stubEnv(key, value);
+  }
+  return import('@/lib/config');
+}
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getASRConfig', () => {
+  const env = {
+    NEXT_ASR_VENDOR: ASRVendor.Ares,
+    NEXT_ASR_LANGUAGE: 'es-ES',
+  };
+
+  it('falls back to the env vendor and language', async () => {
+    const { getASRConfig } = await loadConfig(env);
+
+    expect(getASRConfig({})).toEqual({
+      vendor: ASRVendor.Ares,
+      language: 'es-ES',
+    });
+  });
+
+  it('lets the options override both the vendor and the language', async () => {
+    const { getASRConfig } = await loadConfig({
+      ...env,
+      NEXT_DEEPGRAM_API_KEY: 'dg-key',
+      NEXT_DEEPGRAM_MODEL: 'nova-3',
+    });
+
+    expect(
+      getASRConfig({ vendor: ASRVendor.Deepgram, language: 'fr-FR' })
+    ).toMatchObject({
+      vendor: ASRVendor.Deepgram,
+      language: 'fr-FR',
+      params: { language: 'fr-FR', model: 'nova-3' },
+    });
+  });
+});
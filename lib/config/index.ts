@@ -0,0 +1,483 @@
+import { z } from 'zod';
+import {
+  ASRConfig,
+  ASRVendor,
+  AvatarVendor,
+  TTSConfig,
+  TTSVendor,
+} from '@/types/conversation';
+import { listPersonas } from '@/lib/personas';
+import {
+  AgentToolsEnvSchema,
+  AgoraEnvSchema,
+  ASREnvSchema,
+  AvatarEnvSchema,
+  AvatarVendorEnvSchema,
+  CartesiaEnvSchema,
+  DeepgramEnvSchema,
+  ElevenLabsEnvSchema,
+  HumeAIEnvSchema,
+  LeadSinkEnvSchema,
+  LLMEnvSchema,
+  LLMProxyEnvSchema,
+  MicrosoftASREnvSchema,
+  MicrosoftTTSEnvSchema,
+  MLLMEnvSchema,
+  OperatorEnvSchema,
+  ModalitiesEnvSchema,
+  OpenAITTSEnvSchema,
+  RTMEnvSchema,
+  SessionStoreEnvSchema,
+  SonioxEnvSchema,
+  TTSEnvSchema,
+} from './schema';
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+// Thrown when a config section has missing or invalid env vars,
+// the message names every offending key
+export class ConfigError extends Error {
+  readonly section: string;
+  readonly missing: string[];
+  readonly invalid: ConfigIssue[];
+
+  constructor(section: string, missing: string[], invalid: ConfigIssue[]) {
+    const problems = [
+      missing.length > 0 && `missing ${missing.join(', ')}`,
+      ...invalid.map((issue) => `invalid ${issue.key} (${issue.message})`),
+    ].filter(Boolean);
+    super(
+      `${section} configuration error: ${problems.join('; ')}. Check your .env.local file`
+    );
+    this.name = 'ConfigError';
+    this.section = section;
+    this.missing = missing;
+    this.invalid = invalid;
+  }
+}
+
+let env: Record<string, string> | null = null;
+
+// Snapshot of process.env where empty values (KEY= in .env.local) count as unset
+function getEnv(): Record<string, string> {
+  if (!env) {
+    env = {};
+    for (const [key, value] of Object.entries(process.env)) {
+      if (value !== undefined && value.trim() !== '') {
+        env[key] = value.trim();
+      }
+    }
+  }
+  return env;
+}
+
+// Zod messages for enums echo the received value, keep values out of errors
+function toConfigIssue(issue: z.ZodIssue): ConfigIssue {
+  return {
+    key: issue.path.join('.'),
+    message:
+      issue.code === z.ZodIssueCode.invalid_enum_value
+        ? `expected one of ${issue.options.join(', ')}`
+        : issue.message,
+  };
+}
+
+const sections = new Map<string, z.SafeParseReturnType<unknown, unknown>>();
+
+/**
+ * Parses one config section from the environment. Each section is parsed once
+ * and cached, so repeated calls are cheap and report the same errors.
+ */
+function parseSection<T extends z.ZodTypeAny>(
+  section: string,
+  schema: T
+): z.output<T> {
+  let result = sections.get(section);
+  if (!result) {
+    result = schema.safeParse(getEnv());
+    sections.set(section, result);
+  }
+
+  if (!result.success) {
+    const values = getEnv();
+    const missing: string[] = [];
+    const invalid: ConfigIssue[] = [];
+    result.error.issues.forEach((issue) => {
+      const key = issue.path.join('.');
+      if (values[key] === undefined) {
+        missing.push(key);
+      } else {
+        invalid.push(toConfigIssue(issue));
+      }
+    });
+    throw new ConfigError(section, missing, invalid);
+  }
+  return result.data;
+}
+
+export function getAgoraConfig() {
+  return parseSection('Agora', AgoraEnvSchema);
+}
+
+export function getLLMConfig() {
+  return parseSection('LLM', LLMEnvSchema);
+}
+
+export function getLLMProxyConfig() {
+  return parseSection('LLM proxy', LLMProxyEnvSchema);
+}
+
+export function getModalitiesConfig() {
+  return parseSection('Modalities', ModalitiesEnvSchema);
+}
+
+export function getMLLMConfig() {
+  return parseSection('MLLM', MLLMEnvSchema);
+}
+
+export function getRTMConfig() {
+  return parseSection('RTM', RTMEnvSchema);
+}
+
+export function getOperatorConfig() {
+  return parseSection('Operator', OperatorEnvSchema);
+}
+
+export function getSessionStoreConfig() {
+  return parseSection('Session store', SessionStoreEnvSchema);
+}
+
+export function getAgentToolsConfig() {
+  return parseSection('Agent tools', AgentToolsEnvSchema);
+}
+
+export function getLeadSinkConfig() {
+  return parseSection('Lead sink', LeadSinkEnvSchema);
+}
+
+export type AgoraConfig = ReturnType<typeof getAgoraConfig>;
+
+/**
+ * Builds the TTS config for the vendor set in NEXT_TTS_VENDOR.
+ * A voice for that vendor (e.g. from the persona) overrides the env voice.
+ */
+export function getTTSConfig(
+  voices?: Partial<Record<TTSVendor, string>>
+): TTSConfig {
+  const { NEXT_TTS_VENDOR: vendor } = parseSection('TTS', TTSEnvSchema);
+  const voice = voices?.[vendor];
+
+  switch (vendor) {
+    case TTSVendor.Microsoft: {
+      const tts = parseSection('Microsoft TTS', MicrosoftTTSEnvSchema);
+      return {
+        vendor,
+        params: {
+          key: tts.NEXT_MICROSOFT_TTS_KEY,
+          region: tts.NEXT_MICROSOFT_TTS_REGION,
+          voice_name: voice || tts.NEXT_MICROSOFT_TTS_VOICE_NAME,
+          rate: tts.NEXT_MICROSOFT_TTS_RATE,
+          volume: tts.NEXT_MICROSOFT_TTS_VOLUME,
+          sample_rate: tts.NEXT_MICROSOFT_TTS_SAMPLE_RATE,
+        },
+      };
+    }
+    case TTSVendor.ElevenLabs: {
+      const tts = parseSection('ElevenLabs', ElevenLabsEnvSchema);
+      return {
+        vendor,
+        params: {
+          key: tts.NEXT_ELEVENLABS_API_KEY,
+          model_id: tts.NEXT_ELEVENLABS_MODEL_ID,
+          voice_id: voice || tts.NEXT_ELEVENLABS_VOICE_ID,
+          sample_rate: tts.NEXT_ELEVENLABS_SAMPLE_RATE,
+        },
+      };
+    }
+    case TTSVendor.Cartesia: {
+      const tts = parseSection('Cartesia', CartesiaEnvSchema);
+      return {
+        vendor,
+        params: {
+          api_key: tts.NEXT_CARTESIA_API_KEY,
+          model_id: tts.NEXT_CARTESIA_MODEL_ID,
+          voice: {
+            mode: 'id',
+            id: voice || tts.NEXT_CARTESIA_VOICE_ID,
+          },
+          ...(tts.NEXT_CARTESIA_SAMPLE_RATE && {
+            output_format: {
+              container: 'raw',
+              sample_rate: tts.NEXT_CARTESIA_SAMPLE_RATE,
+            },
+          }),
+        },
+      };
+    }
+    case TTSVendor.OpenAI: {
+      const tts = parseSection('OpenAI TTS', OpenAITTSEnvSchema);
+      return {
+        vendor,
+        params: {
+          api_key: tts.NEXT_OPENAI_TTS_API_KEY,
+          model: tts.NEXT_OPENAI_TTS_MODEL,
+          voice: voice || tts.NEXT_OPENAI_TTS_VOICE,
+          instructions: tts.NEXT_OPENAI_TTS_INSTRUCTIONS,
+          speed: tts.NEXT_OPENAI_TTS_SPEED,
+        },
+      };
+    }
+    case TTSVendor.HumeAI: {
+      const tts = parseSection('Hume AI', HumeAIEnvSchema);
+      return {
+        vendor,
+        params: {
+          key: tts.NEXT_HUMEAI_API_KEY,
+          voice_id: voice || tts.NEXT_HUMEAI_VOICE_ID,
+          provider: tts.NEXT_HUMEAI_PROVIDER,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Builds the ASR config. The vendor and language pinned in the options (e.g.
+ * by the persona) take precedence over NEXT_ASR_VENDOR and NEXT_ASR_LANGUAGE.
+ */
+export function getASRConfig(options: {
+  vendor?: ASRVendor;
+  language?: string;
+  language_hints?: string[];
+}): ASRConfig {
+  const asr = parseSection('ASR', ASREnvSchema);
+  const vendor = options.vendor || asr.NEXT_ASR_VENDOR;
+  const language = options.language || asr.NEXT_ASR_LANGUAGE;
+
+  switch (vendor) {
+    case ASRVendor.Ares:
+      return { vendor, language };
+    case ASRVendor.Microsoft: {
+      const microsoft = parseSection('Microsoft ASR', MicrosoftASREnvSchema);
+      return {
+        vendor,
+        language,
+        params: {
+          key: microsoft.NEXT_MICROSOFT_ASR_KEY,
+          region: microsoft.NEXT_MICROSOFT_ASR_REGION,
+          language,
+        },
+      };
+    }
+    case ASRVendor.Deepgram: {
+      const deepgram = parseSection('Deepgram', DeepgramEnvSchema);
+      return {
+        vendor,
+        language,
+        params: {
+          url: deepgram.NEXT_DEEPGRAM_URL,
+          key: deepgram.NEXT_DEEPGRAM_API_KEY,
+          model: deepgram.NEXT_DEEPGRAM_MODEL,
+          language,
+        },
+      };
+    }
+    case ASRVendor.Soniox: {
+      const soniox = parseSection('Soniox', SonioxEnvSchema);
+      return {
+        vendor,
+        language,
+        params: {
+          api_key: soniox.NEXT_SONIOX_API_KEY,
+          language_hints: options.language_hints,
+        },
+      };
+    }
+  }
+}
+
+// TTS sample rate each avatar vendor expects, mismatched audio breaks lip sync
+const AVATAR_TTS_SAMPLE_RATES: Record<AvatarVendor, number> = {
+  [AvatarVendor.HeyGen]: 24000,
+  [AvatarVendor.Akool]: 16000,
+};
+
+// Helper function to get the sample rate a TTS config will produce, if known
+function getTTSSampleRate(tts: TTSConfig): number | undefined {
+  switch (tts.vendor) {
+    case TTSVendor.Microsoft:
+    case TTSVendor.ElevenLabs:
+      return tts.params.sample_rate;
+    case TTSVendor.Cartesia:
+      return tts.params.output_format?.sample_rate;
+    case TTSVendor.OpenAI:
+      // OpenAI TTS always streams 24kHz PCM
+      return 24000;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validates the avatar configuration against the TTS it will lip sync to.
+ * Returns null when no avatar vendor is configured.
+ */
+export function getAvatarConfig(tts: TTSConfig) {
+  const { NEXT_AVATAR_VENDOR: vendor } = parseSection(
+    'Avatar vendor',
+    AvatarVendorEnvSchema
+  );
+  if (!vendor) {
+    return null;
+  }
+
+  const avatar = parseSection('Avatar', AvatarEnvSchema);
+
+  const requiredSampleRate = AVATAR_TTS_SAMPLE_RATES[vendor];
+  const ttsSampleRate = getTTSSampleRate(tts);
+  if (ttsSampleRate !== requiredSampleRate) {
+    throw new ConfigError('Avatar', [], [
+      {
+        key: 'NEXT_AVATAR_VENDOR',
+        message:
+          `${vendor} requires a TTS sample rate of ${requiredSampleRate} Hz, ` +
+          `but ${tts.vendor} TTS is configured for ${ttsSampleRate ?? 'its default'} Hz`,
+      },
+    ]);
+  }
+
+  return {
+    vendor,
+    api_key: avatar.NEXT_AVATAR_API_KEY,
+    avatar_id: avatar.NEXT_AVATAR_ID,
+    uid: avatar.NEXT_AVATAR_UID,
+    quality: avatar.NEXT_AVATAR_QUALITY,
+  };
+}
+
+export interface ConfigSectionStatus {
+  name: string;
+  vendor?: string;
+  ready: boolean;
+  missing: string[];
+  invalid: ConfigIssue[];
+}
+
+// Readiness report for /api/health/config, lists key names but never values
+export interface ConfigStatus {
+  ready: boolean;
+  sections: ConfigSectionStatus[];
+}
+
+function checkSection(
+  name: string,
+  check: () => void,
+  vendor?: string
+): ConfigSectionStatus {
+  try {
+    check();
+    return { name, vendor, ready: true, missing: [], invalid: [] };
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return {
+        name,
+        vendor,
+        ready: false,
+        missing: error.missing,
+        invalid: error.invalid,
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks every section needed to start a conversation with the enabled
+ * personas. Avatar and MLLM are only checked when they are turned on.
+ */
+export function getConfigStatus(): ConfigStatus {
+  const statuses: ConfigSectionStatus[] = [
+    checkSection('agora', getAgoraConfig),
+    checkSection('llm', getLLMConfig),
+    checkSection('llm proxy', getLLMProxyConfig),
+    checkSection('modalities', getModalitiesConfig),
+    checkSection('rtm', getRTMConfig),
+  ];
+
+  let tts: TTSConfig | undefined;
+  let ttsVendor: string | undefined;
+  try {
+    ttsVendor = parseSection('TTS', TTSEnvSchema).NEXT_TTS_VENDOR;
+  } catch {
+    // Reported by the tts section below
+  }
+  statuses.push(
+    checkSection(
+      'tts',
+      () => {
+        tts = getTTSConfig();
+      },
+      ttsVendor
+    )
+  );
+
+  // Personas can pin their own ASR vendor, check each vendor in use
+  let defaultASRVendor: ASRVendor | undefined;
+  try {
+    defaultASRVendor = parseSection('ASR', ASREnvSchema).NEXT_ASR_VENDOR;
+  } catch {
+    // Reported by the asr section below
+  }
+  const asrVendors = new Set(
+    listPersonas().map((persona) => persona.asr.vendor || defaultASRVendor)
+  );
+  asrVendors.forEach((vendor) => {
+    statuses.push(
+      checkSection(
+        'asr',
+        () => getASRConfig({ vendor }),
+        vendor
+      )
+    );
+  });
+
+  if (getEnv().NEXT_AVATAR_VENDOR) {
+    let avatarVendor: string | undefined;
+    try {
+      avatarVendor = parseSection(
+        'Avatar vendor',
+        AvatarVendorEnvSchema
+      ).NEXT_AVATAR_VENDOR;
+    } catch {
+      // Reported by the avatar section below
+    }
+    statuses.push(
+      checkSection(
+        'avatar',
+        () => {
+          // Without a valid TTS config the tts section is already failing
+          if (tts) {
+            getAvatarConfig(tts);
+          }
+        },
+        avatarVendor
+      )
+    );
+  }
+
+  if (process.env.NEXT_PUBLIC_ENABLE_MLLM === 'true') {
+    statuses.push(checkSection('mllm', getMLLMConfig));
+  }
+
+  if (getEnv().NEXT_ENABLE_AGENT_TOOLS === 'true') {
+    statuses.push(checkSection('lead sink', getLeadSinkConfig));
+  }
+
+  return {
+    ready: statuses.every((status) => status.ready),
+    sections: statuses,
+  };
+}
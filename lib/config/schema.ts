@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { ASRVendor, AvatarVendor, TTSVendor } from '@/types/conversation';
+
+// Env vars are always strings, numbers are coerced and checked here
+const envNumber = z.coerce.number();
+const envSampleRate = z.coerce.number().int().positive();
+
+export const AgoraEnvSchema = z
+  .object({
+    NEXT_PUBLIC_AGORA_APP_ID: z.string(),
+    NEXT_AGORA_APP_CERTIFICATE: z.string(),
+    NEXT_AGORA_CUSTOMER_ID: z.string(),
+    NEXT_AGORA_CUSTOMER_SECRET: z.string(),
+    NEXT_AGORA_CONVO_AI_BASE_URL: z.string().url(),
+    NEXT_AGENT_UID: z.string().default('Agent'),
+  })
+  .transform((env) => ({
+    // The example base URL ends with a slash, paths are joined with one
+    baseUrl: env.NEXT_AGORA_CONVO_AI_BASE_URL.replace(/\/+$/, ''),
+    appId: env.NEXT_PUBLIC_AGORA_APP_ID,
+    appCertificate: env.NEXT_AGORA_APP_CERTIFICATE,
+    customerId: env.NEXT_AGORA_CUSTOMER_ID,
+    customerSecret: env.NEXT_AGORA_CUSTOMER_SECRET,
+    agentUid: env.NEXT_AGENT_UID,
+  }));
+
+export const LLMEnvSchema = z
+  .object({
+    NEXT_LLM_URL: z.string().url(),
+    NEXT_LLM_API_KEY: z.string(),
+    NEXT_LLM_MODEL: z.string().optional(),
+  })
+  .transform((env) => ({
+    url: env.NEXT_LLM_URL,
+    api_key: env.NEXT_LLM_API_KEY,
+    model: env.NEXT_LLM_MODEL,
+  }));
+
+// With a proxy URL the agent calls /api/llm/chat/completions in this app,
+// which forwards to NEXT_LLM_URL
+export const LLMProxyEnvSchema = z
+  .object({
+    // Public URL of the route, Agora's servers must be able to reach it
+    NEXT_LLM_PROXY_URL: z.string().url().optional(),
+    // Key the agent sends to the proxy, the route is disabled without one
+    NEXT_LLM_PROXY_API_KEY: z.string().optional(),
+  })
+  .refine((env) => !env.NEXT_LLM_PROXY_URL || env.NEXT_LLM_PROXY_API_KEY, {
+    message: 'Required when NEXT_LLM_PROXY_URL is set',
+    path: ['NEXT_LLM_PROXY_API_KEY'],
+  })
+  .transform((env) => ({
+    url: env.NEXT_LLM_PROXY_URL,
+    apiKey: env.NEXT_LLM_PROXY_API_KEY,
+  }));
+
+const modalities = (fallback: string[]) =>
+  z
+    .string()
+    .optional()
+    .transform((value) =>
+      value ? value.split(',').map((m) => m.trim()) : fallback
+    );
+
+export const ModalitiesEnvSchema = z
+  .object({
+    NEXT_INPUT_MODALITIES: modalities(['text']),
+    NEXT_OUTPUT_MODALITIES: modalities(['text', 'audio']),
+  })
+  .transform((env) => ({
+    input: env.NEXT_INPUT_MODALITIES,
+    output: env.NEXT_OUTPUT_MODALITIES,
+  }));
+
+export const TTSEnvSchema = z.object({
+  NEXT_TTS_VENDOR: z.nativeEnum(TTSVendor).default(TTSVendor.Microsoft),
+});
+
+export const MicrosoftTTSEnvSchema = z.object({
+  NEXT_MICROSOFT_TTS_KEY: z.string(),
+  NEXT_MICROSOFT_TTS_REGION: z.string(),
+  NEXT_MICROSOFT_TTS_VOICE_NAME: z.string(),
+  NEXT_MICROSOFT_TTS_RATE: envNumber,
+  NEXT_MICROSOFT_TTS_VOLUME: envNumber,
+  NEXT_MICROSOFT_TTS_SAMPLE_RATE: envSampleRate.optional(),
+});
+
+export const ElevenLabsEnvSchema = z.object({
+  NEXT_ELEVENLABS_API_KEY: z.string(),
+  NEXT_ELEVENLABS_VOICE_ID: z.string(),
+  NEXT_ELEVENLABS_MODEL_ID: z.string(),
+  NEXT_ELEVENLABS_SAMPLE_RATE: envSampleRate.optional(),
+});
+
+export const CartesiaEnvSchema = z.object({
+  NEXT_CARTESIA_API_KEY: z.string(),
+  NEXT_CARTESIA_MODEL_ID: z.string(),
+  NEXT_CARTESIA_VOICE_ID: z.string(),
+  NEXT_CARTESIA_SAMPLE_RATE: envSampleRate.optional(),
+});
+
+export const OpenAITTSEnvSchema = z.object({
+  NEXT_OPENAI_TTS_API_KEY: z.string(),
+  NEXT_OPENAI_TTS_MODEL: z.string(),
+  NEXT_OPENAI_TTS_VOICE: z.string(),
+  NEXT_OPENAI_TTS_INSTRUCTIONS: z.string().optional(),
+  NEXT_OPENAI_TTS_SPEED: envNumber.optional(),
+});
+
+export const HumeAIEnvSchema = z.object({
+  NEXT_HUMEAI_API_KEY: z.string(),
+  NEXT_HUMEAI_VOICE_ID: z.string(),
+  NEXT_HUMEAI_PROVIDER: z.enum(['HUME_AI', 'CUSTOM_VOICE']).default('HUME_AI'),
+});
+
+export const ASREnvSchema = z.object({
+  NEXT_ASR_VENDOR: z.nativeEnum(ASRVendor).default(ASRVendor.Soniox),
+  NEXT_ASR_LANGUAGE: z.string().default('en-US'),
+});
+
+export const MicrosoftASREnvSchema = z.object({
+  NEXT_MICROSOFT_ASR_KEY: z.string(),
+  NEXT_MICROSOFT_ASR_REGION: z.string(),
+});
+
+export const DeepgramEnvSchema = z.object({
+  NEXT_DEEPGRAM_API_KEY: z.string(),
+  NEXT_DEEPGRAM_MODEL: z.string(),
+  NEXT_DEEPGRAM_URL: z.string().url().optional(),
+});
+
+export const SonioxEnvSchema = z.object({
+  NEXT_SONIOX_API_KEY: z.string(),
+});
+
+export const AvatarVendorEnvSchema = z.object({
+  NEXT_AVATAR_VENDOR: z.nativeEnum(AvatarVendor).optional(),
+});
+
+export const AvatarEnvSchema = z.object({
+  NEXT_AVATAR_API_KEY: z.string(),
+  NEXT_AVATAR_UID: z.string(),
+  NEXT_AVATAR_ID: z.string().optional(),
+  NEXT_AVATAR_QUALITY: z.enum(['low', 'medium', 'high']).default('medium'),
+});
+
+export const MLLMEnvSchema = z
+  .object({
+    NEXT_MLLM_API_KEY: z.string(),
+    NEXT_MLLM_URL: z.string().url().default('wss://api.openai.com/v1/realtime'),
+    NEXT_MLLM_MODEL: z.string().default('gpt-4o-realtime-preview'),
+    NEXT_MLLM_VOICE: z.string().optional(),
+    NEXT_MLLM_TURN_DETECTION: z
+      .enum(['server_vad', 'semantic_vad'])
+      .default('server_vad'),
+    NEXT_MLLM_VAD_EAGERNESS: z
+      .enum(['auto', 'low', 'medium', 'high'])
+      .default('auto'),
+  })
+  .transform((env) => ({
+    url: env.NEXT_MLLM_URL,
+    api_key: env.NEXT_MLLM_API_KEY,
+    model: env.NEXT_MLLM_MODEL,
+    voice: env.NEXT_MLLM_VOICE,
+    turn_detection: env.NEXT_MLLM_TURN_DETECTION,
+    eagerness: env.NEXT_MLLM_VAD_EAGERNESS,
+  }));
+
+// Shared with the browser, which connects to RTM when this is enabled
+export const RTMEnvSchema = z
+  .object({
+    NEXT_PUBLIC_ENABLE_RTM: z.enum(['true', 'false']).default('false'),
+  })
+  .transform((env) => ({
+    enabled: env.NEXT_PUBLIC_ENABLE_RTM === 'true',
+  }));
+
+// file keeps one JSON file per session, memory loses them on restart
+export const SessionStoreEnvSchema = z
+  .object({
+    NEXT_SESSION_STORE: z.enum(['none', 'memory', 'file']).default('none'),
+    NEXT_SESSION_STORE_DIR: z.string().default('.data/sessions'),
+  })
+  .transform((env) => ({
+    driver: env.NEXT_SESSION_STORE,
+    dir: env.NEXT_SESSION_STORE_DIR,
+  }));
+
+// Bearer token for operator-only routes: listing agents, making an agent
+// speak and reading stored sessions. Unset disables those routes.
+export const OperatorEnvSchema = z
+  .object({
+    NEXT_OPERATOR_SECRET: z.string().optional(),
+  })
+  .transform((env) => ({
+    secret: env.NEXT_OPERATOR_SECRET,
+  }));
+
+// Tools need an LLM endpoint that runs tool calls through /api/tool-calls
+export const AgentToolsEnvSchema = z
+  .object({
+    NEXT_ENABLE_AGENT_TOOLS: z.enum(['true', 'false']).default('false'),
+    // Bearer token /api/tool-calls requires, unset disables the route
+    NEXT_TOOL_WEBHOOK_SECRET: z.string().optional(),
+  })
+  .transform((env) => ({
+    enabled: env.NEXT_ENABLE_AGENT_TOOLS === 'true',
+    webhookSecret: env.NEXT_TOOL_WEBHOOK_SECRET,
+  }));
+
+export const LeadSinkEnvSchema = z
+  .object({
+    NEXT_LEAD_SINK: z.enum(['console', 'file', 'webhook']).default('file'),
+    NEXT_LEAD_SINK_FILE: z.string().default('.data/leads.jsonl'),
+    NEXT_LEAD_SINK_URL: z.string().url().optional(),
+  })
+  .refine(
+    (env) => env.NEXT_LEAD_SINK !== 'webhook' || env.NEXT_LEAD_SINK_URL,
+    {
+      message: 'Required when NEXT_LEAD_SINK is webhook',
+      path: ['NEXT_LEAD_SINK_URL'],
+    }
+  )
+  .transform((env) => ({
+    driver: env.NEXT_LEAD_SINK,
+    file: env.NEXT_LEAD_SINK_FILE,
+    url: env.NEXT_LEAD_SINK_URL,
+  }));
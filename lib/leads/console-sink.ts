@@ -0,0 +1,8 @@
+import type { LeadRecord, LeadSink } from './sink';
+
+// Logs each lead as one JSON line, for development
+export class ConsoleLeadSink implements LeadSink {
+  async save(lead: LeadRecord) {
+    console.log('Lead captured:', JSON.stringify(lead));
+  }
+}
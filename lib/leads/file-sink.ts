@@ -0,0 +1,13 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import type { LeadRecord, LeadSink } from './sink';
+
+// Appends each lead as a line of JSON, easy to import into a spreadsheet or CRM
+export class FileLeadSink implements LeadSink {
+  constructor(private readonly filePath: string) {}
+
+  async save(lead: LeadRecord) {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(lead)}\n`);
+  }
+}
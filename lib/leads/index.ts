@@ -0,0 +1,35 @@
+import path from 'path';
+import { getLeadSinkConfig } from '@/lib/config';
+import { ConsoleLeadSink } from './console-sink';
+import { FileLeadSink } from './file-sink';
+import { WebhookLeadSink } from './webhook-sink';
+import type { LeadSink } from './sink';
+
+export type { LeadRecord, LeadSink } from './sink';
+export { ConsoleLeadSink } from './console-sink';
+export { FileLeadSink } from './file-sink';
+export { WebhookLeadSink } from './webhook-sink';
+
+let sink: LeadSink | undefined;
+
+/**
+ * Returns the sink picked with NEXT_LEAD_SINK, appending to a file by
+ * default. Created once per server process.
+ */
+export function getLeadSink(): LeadSink {
+  if (!sink) {
+    const { driver, file, url } = getLeadSinkConfig();
+    switch (driver) {
+      case 'file':
+        sink = new FileLeadSink(path.resolve(file));
+        break;
+      case 'webhook':
+        sink = new WebhookLeadSink(url!);
+        break;
+      case 'console':
+        sink = new ConsoleLeadSink();
+        break;
+    }
+  }
+  return sink;
+}
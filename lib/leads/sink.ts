@@ -0,0 +1,20 @@
+// Contact details collected by the agent's save_lead and book_demo tools
+export interface LeadRecord {
+  id: string;
+  type: 'lead' | 'demo_request';
+  // Conversation the lead came from, if the caller passed it
+  agent_id: string | null;
+  // Channel of the conversation, set when the agent goes through the LLM
+  // proxy, which doesn't learn the agent id
+  channel: string | null;
+  received_at: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Where captured leads end up. Adapters only need to accept a record, e.g.
+ * append it to a file or forward it to a CRM.
+ */
+export interface LeadSink {
+  save(lead: LeadRecord): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import type { LeadRecord, LeadSink } from './sink';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// POSTs each lead as JSON, e.g. to a CRM or automation webhook
+export class WebhookLeadSink implements LeadSink {
+  constructor(private readonly url: string) {}
+
+  async save(lead: LeadRecord) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(lead),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Lead webhook failed: ${response.status} ${await response.text()}`
+      );
+    }
+  }
+}
@@ -0,0 +1,13 @@
+export type {
+  LLMProxyContext,
+  LLMProxyMiddleware,
+  LLMProxyResult,
+  UpstreamChatCompletionRequest,
+} from './types';
+export {
+  proxyChatCompletion,
+  type LLMUpstream,
+  type ProxyChatCompletionOptions,
+} from './proxy';
+export { LLM_PROXY_MIDDLEWARES, loggingMiddleware } from './middlewares';
+export { encodeSSE, parseSSE } from './sse';
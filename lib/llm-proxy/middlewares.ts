@@ -0,0 +1,23 @@
+import type { LLMProxyMiddleware } from './types';
+
+// Logs one line per completed turn
+export const loggingMiddleware: LLMProxyMiddleware = {
+  name: 'logging',
+  onResponse(result, context) {
+    console.log(
+      'LLM proxy turn:',
+      JSON.stringify({
+        request_id: context.requestId,
+        turn_id: context.turnId,
+        duration_ms: Date.now() - context.startedAt,
+        finish_reason: result.finishReason,
+        content_length: result.content.length,
+        tool_calls: result.toolCalls.map((call) => call.function.name),
+      })
+    );
+  },
+};
+
+// Run in order on every request to /api/llm/chat/completions. Add retrieval,
+// guardrails or your own logging here.
+export const LLM_PROXY_MIDDLEWARES: LLMProxyMiddleware[] = [loggingMiddleware];
@@ -0,0 +1,250 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  parseSSE,
+  proxyChatCompletion,
+  type LLMProxyMiddleware,
+  type LLMProxyResult,
+} from '@/lib/llm-proxy';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ToolCallDelta,
+} from '@/types/conversation';
+import { FakeLeadSink } from '@/test/fake-lead-sink';
+
+const upstream = {
+  url: 'https://llm.example.com/v1/chat/completions',
+  apiKey: 'sk-test',
+  model: 'gpt-4o',
+};
+
+function chunk(
+  delta: { content?: string; tool_calls?: ToolCallDelta[] },
+  finish_reason: string | null = null
+): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta, finish_reason }],
+  };
+}
+
+// Upstream SSE response, split at odd places like a real network read
+function sseResponse(chunks: ChatCompletionChunk[]) {
+  const text =
+    chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join('') +
+    'data: [DONE]\n\n';
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < text.length; i += 7) {
+          controller.enqueue(encoder.encode(text.slice(i, i + 7)));
+        }
+        controller.close();
+      },
+    }),
+    { headers: { 'Content-Type': 'text/event-stream' } }
+  );
+}
+
+async function readChunks(response: Response) {
+  const chunks: ChatCompletionChunk[] = [];
+  for await (const data of parseSSE(response.body!)) {
+    if (data !== '[DONE]') {
+      chunks.push(JSON.parse(data));
+    }
+  }
+  return chunks;
+}
+
+function mockUpstream(...responses: Response[]) {
+  const fetchMock = vi.spyOn(globalThis, 'fetch');
+  for (const response of responses) {
+    fetchMock.mockResolvedValueOnce(response);
+  }
+  return fetchMock;
+}
+
+function sentBody(fetchMock: ReturnType<typeof mockUpstream>, call = 0) {
+  return JSON.parse(fetchMock.mock.calls[call][1]!.body as string);
+}
+
+const request: ChatCompletionRequest = {
+  messages: [{ role: 'user', content: 'Hi' }],
+  stream: true,
+  turn_id: 3,
+  timestamp: 1700000000000,
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseSSE', () => {
+  it('joins events split across reads and skips comments', async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      start(controller) {
+        for (const part of [
+          ': keep-alive\n\nda',
+          'ta: {"a"',
+          ':1}\r\n\r\ndata: [DONE]',
+        ]) {
+          controller.enqueue(encoder.encode(part));
+        }
+        controller.close();
+      },
+    });
+
+    const events: string[] = [];
+    for await (const data of parseSSE(stream)) {
+      events.push(data);
+    }
+    expect(events).toEqual(['{"a":1}', '[DONE]']);
+  });
+});
+
+describe('proxyChatCompletion', () => {
+  it('strips the Agora fields and defaults the model', async () => {
+    const fetchMock = mockUpstream(sseResponse([chunk({ content: 'Hello' })]));
+
+    const response = await proxyChatCompletion(request, { upstream });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await readChunks(response)).toEqual([chunk({ content: 'Hello' })]);
+    expect(fetchMock.mock.calls[0][0]).toBe(upstream.url);
+    expect(fetchMock.mock.calls[0][1]!.headers).toMatchObject({
+      Authorization: 'Bearer sk-test',
+    });
+    expect(sentBody(fetchMock)).toEqual({
+      messages: request.messages,
+      stream: true,
+      model: 'gpt-4o',
+    });
+  });
+
+  it('runs the middleware hooks', async () => {
+    const fetchMock = mockUpstream(
+      sseResponse([
+        chunk({ content: 'Hello' }),
+        chunk({ content: ' secret' }),
+        chunk({}, 'stop'),
+      ])
+    );
+    let result: LLMProxyResult | undefined;
+    const middleware: LLMProxyMiddleware = {
+      name: 'test',
+      onRequest: (req, context) => ({
+        ...req,
+        messages: [
+          { role: 'system', content: `Turn ${context.turnId}` },
+          ...req.messages,
+        ],
+      }),
+      onChunk: (c) => (c.choices[0].delta.content === ' secret' ? null : c),
+      onResponse: (r) => {
+        result = r;
+      },
+    };
+
+    const response = await proxyChatCompletion(request, {
+      upstream,
+      middlewares: [middleware],
+    });
+
+    expect(await readChunks(response)).toHaveLength(2);
+    expect(sentBody(fetchMock).messages[0]).toEqual({
+      role: 'system',
+      content: 'Turn 3',
+    });
+    expect(result).toEqual({
+      content: 'Hello',
+      toolCalls: [],
+      finishReason: 'stop',
+    });
+  });
+
+  it('runs tool calls and streams the answer that follows', async () => {
+    const fetchMock = mockUpstream(
+      sseResponse([
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'save_lead', arguments: '{"name":"Grace",' },
+            },
+          ],
+        }),
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              function: { arguments: '"email":"grace@example.com"}' },
+            },
+          ],
+        }),
+        chunk({}, 'tool_calls'),
+      ]),
+      sseResponse([chunk({ content: 'Saved!' }), chunk({}, 'stop')])
+    );
+    const leadSink = new FakeLeadSink();
+
+    const response = await proxyChatCompletion(request, {
+      upstream,
+      toolContext: { agentId: null, channel: 'demo', leadSink },
+    });
+
+    expect(await readChunks(response)).toEqual([
+      chunk({ content: 'Saved!' }),
+      chunk({}, 'stop'),
+    ]);
+    expect(leadSink.leads[0]).toMatchObject({
+      channel: 'demo',
+      data: { name: 'Grace' },
+    });
+    const messages = sentBody(fetchMock, 1).messages;
+    expect(messages[1]).toMatchObject({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', function: { name: 'save_lead' } }],
+    });
+    expect(messages[2]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_1',
+      content: JSON.stringify({
+        status: 'saved',
+        lead_id: leadSink.leads[0].id,
+      }),
+    });
+  });
+
+  it('passes tool calls through without a tool context', async () => {
+    const toolChunk = chunk({
+      tool_calls: [{ index: 0, id: 'call_1', function: { name: 'lookup' } }],
+    });
+    const fetchMock = mockUpstream(sseResponse([toolChunk]));
+
+    const response = await proxyChatCompletion(request, { upstream });
+
+    expect(await readChunks(response)).toEqual([toolChunk]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns upstream errors as they are', async () => {
+    mockUpstream(
+      Response.json({ error: { message: 'Invalid API key' } }, { status: 401 })
+    );
+
+    const response = await proxyChatCompletion(request, { upstream });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: { message: 'Invalid API key' },
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { randomUUID } from 'crypto';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatMessage,
+  ToolCall,
+} from '@/types/conversation';
+import { executeToolCall, type ToolContext } from '@/lib/tools';
+import { encodeSSE, parseSSE } from './sse';
+import type {
+  LLMProxyContext,
+  LLMProxyMiddleware,
+  LLMProxyResult,
+  UpstreamChatCompletionRequest,
+} from './types';
+
+// Upper bound on LLM calls for one turn when the model keeps calling tools
+const MAX_TOOL_ROUNDS = 4;
+
+export interface LLMUpstream {
+  // Full chat completions URL, e.g. https://api.openai.com/v1/chat/completions
+  url: string;
+  apiKey: string;
+  // Used when the request doesn't name a model
+  model?: string;
+}
+
+export interface ProxyChatCompletionOptions {
+  upstream: LLMUpstream;
+  middlewares?: LLMProxyMiddleware[];
+  // When set, tool calls the LLM makes run here and the agent only gets the
+  // final answer. Otherwise they are streamed to the agent as they are.
+  toolContext?: ToolContext;
+  signal?: AbortSignal;
+}
+
+function callUpstream(
+  upstream: LLMUpstream,
+  request: UpstreamChatCompletionRequest,
+  signal?: AbortSignal
+) {
+  return fetch(upstream.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${upstream.apiKey}`,
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+}
+
+async function runToolCall(call: ToolCall, context: ToolContext) {
+  try {
+    return await executeToolCall(call, context);
+  } catch (error) {
+    // The model gets the error and can retry or tell the user
+    console.error(`Error running tool ${call.function.name}:`, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Merges streamed tool call pieces into the calls they belong to
+function addToolCallDeltas(
+  calls: ToolCall[],
+  deltas: NonNullable<
+    ChatCompletionChunk['choices'][number]['delta']['tool_calls']
+  >
+) {
+  for (const delta of deltas) {
+    const call = (calls[delta.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+    call.id ||= delta.id ?? '';
+    call.function.name += delta.function?.name ?? '';
+    call.function.arguments += delta.function?.arguments ?? '';
+  }
+}
+
+/**
+ * Chunks of the upstream stream. With a tool context, tool call deltas are
+ * held back, the calls run once the model is done asking and the model is
+ * called again with their results, so the stream carries on with its answer.
+ */
+async function* upstreamChunks(
+  first: Response,
+  request: UpstreamChatCompletionRequest,
+  options: ProxyChatCompletionOptions,
+  result: LLMProxyResult
+): AsyncGenerator<ChatCompletionChunk> {
+  const { toolContext } = options;
+  let response = first;
+  let messages: ChatMessage[] = request.messages;
+
+  for (let round = 1; ; round++) {
+    const calls: ToolCall[] = [];
+    let content = '';
+
+    for await (const data of parseSSE(response.body!)) {
+      if (data === '[DONE]') {
+        break;
+      }
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      // Usage chunks have no choices
+      const choice = chunk.choices[0];
+      if (choice && toolContext) {
+        if (choice.delta.tool_calls) {
+          addToolCallDeltas(calls, choice.delta.tool_calls);
+          delete choice.delta.tool_calls;
+          if (!choice.delta.content && !choice.finish_reason) {
+            continue;
+          }
+        }
+        if (choice.finish_reason === 'tool_calls') {
+          continue;
+        }
+      }
+      content += choice?.delta.content ?? '';
+      yield chunk;
+    }
+
+    if (calls.length === 0) {
+      return;
+    }
+    if (round === MAX_TOOL_ROUNDS) {
+      throw new Error(`LLM still calling tools after ${round} rounds`);
+    }
+
+    const toolMessages: ChatMessage[] = [];
+    for (const call of calls) {
+      const output = await runToolCall(call, toolContext!);
+      result.toolCalls.push(call);
+      toolMessages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(output),
+      });
+    }
+    messages = [
+      ...messages,
+      { role: 'assistant', content: content || null, tool_calls: calls },
+      ...toolMessages,
+    ];
+
+    response = await callUpstream(
+      options.upstream,
+      { ...request, messages },
+      options.signal
+    );
+    if (!response.ok) {
+      throw new Error(
+        `LLM request failed with ${response.status}: ${await response.text()}`
+      );
+    }
+  }
+}
+
+async function finish(
+  middlewares: LLMProxyMiddleware[],
+  result: LLMProxyResult,
+  context: LLMProxyContext
+) {
+  for (const middleware of middlewares) {
+    try {
+      await middleware.onResponse?.(result, context);
+    } catch (error) {
+      console.error(`Error in LLM proxy middleware ${middleware.name}:`, error);
+    }
+  }
+}
+
+function streamResponse(
+  first: Response,
+  request: UpstreamChatCompletionRequest,
+  options: ProxyChatCompletionOptions,
+  context: LLMProxyContext
+) {
+  const middlewares = options.middlewares ?? [];
+  const result: LLMProxyResult = {
+    content: '',
+    toolCalls: [],
+    finishReason: null,
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const upstreamChunk of upstreamChunks(
+          first,
+          request,
+          options,
+          result
+        )) {
+          let chunk: ChatCompletionChunk | null = upstreamChunk;
+          for (const middleware of middlewares) {
+            if (chunk && middleware.onChunk) {
+              chunk = await middleware.onChunk(chunk, context);
+            }
+          }
+          if (!chunk) {
+            continue;
+          }
+          const choice = chunk.choices[0];
+          result.content += choice?.delta.content ?? '';
+          result.finishReason = choice?.finish_reason ?? result.finishReason;
+          controller.enqueue(encodeSSE(chunk));
+        }
+        controller.enqueue(encodeSSE('[DONE]'));
+        controller.close();
+      } catch (error) {
+        // Headers are sent already, cut the stream so the agent falls back to
+        // its failure message
+        console.error('Error streaming LLM response:', error);
+        controller.error(error);
+      }
+      await finish(middlewares, result, context);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Forwards an OpenAI-compatible chat completion to the upstream LLM, running
+ * the middleware hooks on the way. Streams the answer back as server-sent
+ * events when the request asks for it. Errors from the upstream LLM come back
+ * with its status and body.
+ */
+export async function proxyChatCompletion(
+  body: ChatCompletionRequest,
+  options: ProxyChatCompletionOptions
+): Promise<Response> {
+  const { turn_id, timestamp, ...rest } = body;
+  const context: LLMProxyContext = {
+    requestId: randomUUID(),
+    turnId: turn_id,
+    timestamp,
+    startedAt: Date.now(),
+  };
+
+  let request: UpstreamChatCompletionRequest = {
+    ...rest,
+    model: rest.model ?? options.upstream.model,
+  };
+  for (const middleware of options.middlewares ?? []) {
+    if (middleware.onRequest) {
+      request = await middleware.onRequest(request, context);
+    }
+  }
+
+  const response = await callUpstream(
+    options.upstream,
+    request,
+    options.signal
+  );
+  if (!response.ok || !response.body) {
+    return new Response(response.body, {
+      status: response.status,
+      headers: {
+        'Content-Type':
+          response.headers.get('content-type') ?? 'application/json',
+      },
+    });
+  }
+
+  if (request.stream) {
+    return streamResponse(response, request, options, context);
+  }
+
+  // Agora always streams, plain requests are forwarded as they are
+  const completion = await response.json();
+  const message = completion.choices?.[0]?.message;
+  await finish(
+    options.middlewares ?? [],
+    {
+      content: typeof message?.content === 'string' ? message.content : '',
+      toolCalls: message?.tool_calls ?? [],
+      finishReason: completion.choices?.[0]?.finish_reason ?? null,
+    },
+    context
+  );
+  return Response.json(completion);
+}
@@ -0,0 +1,55 @@
+const encoder = new TextEncoder();
+
+// One server-sent event carrying JSON, or the [DONE] marker
+export function encodeSSE(data: unknown): Uint8Array {
+  return encoder.encode(
+    `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`
+  );
+}
+
+/**
+ * Yields the data of each server-sent event in a stream, e.g. one chat
+ * completion chunk or [DONE]. Events may be split across reads.
+ */
+export async function* parseSSE(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      // The last line may be incomplete, keep it for the next read
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line === '') {
+          // A blank line ends the event
+          if (data.length > 0) {
+            yield data.join('\n');
+            data = [];
+          }
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart());
+        }
+        // Comments (": keep-alive") and other fields are ignored
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield data.join('\n');
+        }
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,54 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ToolCall,
+} from '@/types/conversation';
+
+// Request without the fields Agora adds, as sent to the upstream LLM. Not
+// Omit, which drops the known fields of a type with an index signature.
+export type UpstreamChatCompletionRequest = {
+  [K in keyof ChatCompletionRequest as K extends 'turn_id' | 'timestamp'
+    ? never
+    : K]: ChatCompletionRequest[K];
+};
+
+export interface LLMProxyContext {
+  requestId: string;
+  // From Agora, set when the agent uses llm.vendor "custom"
+  turnId?: number;
+  timestamp?: number;
+  startedAt: number;
+}
+
+export interface LLMProxyResult {
+  // Text streamed to the agent
+  content: string;
+  // Tool calls the proxy ran on the way
+  toolCalls: ToolCall[];
+  finishReason: string | null;
+}
+
+/**
+ * Hooks around each chat completion. Every hook is optional and they run in
+ * the order the middlewares are listed, see lib/llm-proxy/middlewares.ts.
+ */
+export interface LLMProxyMiddleware {
+  name: string;
+  // Before the request goes upstream, e.g. to add retrieved context
+  onRequest?(
+    request: UpstreamChatCompletionRequest,
+    context: LLMProxyContext
+  ):
+    | UpstreamChatCompletionRequest
+    | Promise<UpstreamChatCompletionRequest>;
+  // For each streamed chunk, e.g. for guardrails. Return null to drop it.
+  onChunk?(
+    chunk: ChatCompletionChunk,
+    context: LLMProxyContext
+  ): ChatCompletionChunk | null | Promise<ChatCompletionChunk | null>;
+  // Once the response is complete, e.g. for logging
+  onResponse?(
+    result: LLMProxyResult,
+    context: LLMProxyContext
+  ): void | Promise<void>;
+}
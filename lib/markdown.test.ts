@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { completePartialMarkdown } from '@/lib/markdown';
+
+describe('completePartialMarkdown', () => {
+  it('leaves complete Markdown alone', () => {
+    const text = 'Use **bold**, `code` and [links](https://agora.io).';
+    expect(completePartialMarkdown(text)).toBe(text);
+  });
+
+  it('closes bold text that is still streaming', () => {
+    expect(completePartialMarkdown('This is **impor')).toBe(
+      'This is **impor**'
+    );
+  });
+
+  it('closes inline code that is still streaming', () => {
+    expect(completePartialMarkdown('Call `client.jo')).toBe(
+      'Call `client.jo`'
+    );
+  });
+
+  it('ignores bold markers inside inline code', () => {
+    expect(completePartialMarkdown('Run `a ** b` now')).toBe(
+      'Run `a ** b` now'
+    );
+  });
+
+  it('drops an opening marker with nothing after it yet', () => {
+    expect(completePartialMarkdown('This is **')).toBe('This is ');
+    expect(completePartialMarkdown('Call `')).toBe('Call ');
+  });
+
+  it('closes a link whose URL is still streaming', () => {
+    expect(completePartialMarkdown('See [the docs](https://docs.ag')).toBe(
+      'See [the docs](https://docs.ag)'
+    );
+  });
+
+  it('only looks at the last line', () => {
+    expect(completePartialMarkdown('A lone ** here\nand **mo')).toBe(
+      'A lone ** here\nand **mo**'
+    );
+  });
+
+  it('leaves an open code block alone', () => {
+    const text = 'Example:\n```ts\nconst a = `partial';
+    expect(completePartialMarkdown(text)).toBe(text);
+  });
+});
@@ -0,0 +1,44 @@
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+// An opened link whose URL is still streaming in, e.g. "[docs](https://exa"
+const PARTIAL_LINK_PATTERN = /\[[^\]]*\]\([^)\s]*$/;
+
+/**
+ * Closes Markdown constructs that are cut off mid-stream, so an in-progress
+ * message renders as formatted text instead of flashing raw markers until the
+ * closing token arrives. Handles unclosed inline code, bold and links on the
+ * last line. Open code fences are left alone, they already run to the end.
+ * Only meant for text that is still streaming, finished text is rendered as is.
+ */
+export function completePartialMarkdown(text: string): string {
+  const lines = text.split('\n');
+  const fenceCount = lines.filter((line) => CODE_FENCE_PATTERN.test(line))
+    .length;
+  if (fenceCount % 2 === 1) {
+    return text;
+  }
+
+  let lastLine = lines[lines.length - 1];
+  const head = text.slice(0, text.length - lastLine.length);
+
+  // An opening marker at the very end has nothing to format yet, drop it
+  lastLine = lastLine.replace(/(\*\*|`)$/, (marker, _, offset) =>
+    isUnmatched(lastLine.slice(0, offset), marker) ? marker : ''
+  );
+
+  if (isUnmatched(lastLine, '`')) {
+    lastLine += '`';
+  }
+  // Bold markers inside inline code are literal
+  if (isUnmatched(lastLine.replace(/`[^`]*`/g, ''), '**')) {
+    lastLine += '**';
+  }
+  if (PARTIAL_LINK_PATTERN.test(lastLine)) {
+    lastLine += ')';
+  }
+
+  return head + lastLine;
+}
+
+function isUnmatched(text: string, marker: string): boolean {
+  return text.split(marker).length % 2 === 0;
+}
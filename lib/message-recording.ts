@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import type { IAgoraRTCClient, UID } from 'agora-rtc-react';
+import type { IMessageEngineClock } from '@/lib/message';
+import { downloadFile } from '@/lib/utils';
+
+export type TMessageRecordingEvent =
+  // payload is the raw data stream message, base64 encoded
+  | { at: number; type: 'stream-message'; uid: UID; payload: string }
+  | { at: number; type: 'audio-metadata'; pts: number };
+
+/**
+ * RTC traffic captured by MessageEngine.startRecording(). Event times are
+ * milliseconds since recording started. Saved as JSON so it can be attached
+ * to bug reports and replayed offline with replayRecording().
+ */
+export interface IMessageRecording {
+  version: 1;
+  started_at: string;
+  agent_uid: string | null;
+  events: TMessageRecordingEvent[];
+}
+
+const MessageRecordingSchema = z.object({
+  version: z.literal(1),
+  started_at: z.string(),
+  agent_uid: z.string().nullable(),
+  events: z.array(
+    z.discriminatedUnion('type', [
+      z.object({
+        at: z.number().nonnegative(),
+        type: z.literal('stream-message'),
+        uid: z.union([z.string(), z.number()]),
+        payload: z.string(),
+      }),
+      z.object({
+        at: z.number().nonnegative(),
+        type: z.literal('audio-metadata'),
+        pts: z.number(),
+      }),
+    ])
+  ),
+});
+
+export function encodePayload(payload: Uint8Array): string {
+  let binary = '';
+  payload.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function decodePayload(payload: string): Uint8Array {
+  return Uint8Array.from(atob(payload), (char) => char.charCodeAt(0));
+}
+
+// audio-metadata carries the PTS as a little endian uint64
+export function encodePts(pts: number): Uint8Array {
+  const metadata = new Uint8Array(8);
+  new DataView(metadata.buffer).setBigUint64(0, BigInt(pts), true);
+  return metadata;
+}
+
+/**
+ * Parses a recording file, e.g. one uploaded to the replay page.
+ * Throws if the JSON is not a recording.
+ */
+export function parseRecording(json: string): IMessageRecording {
+  const result = MessageRecordingSchema.safeParse(JSON.parse(json));
+  if (!result.success) {
+    throw new Error(`Invalid recording: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+// Saves a recording as a JSON file from the browser
+export function downloadRecording(recording: IMessageRecording) {
+  downloadFile(
+    JSON.stringify(recording, null, 2),
+    `transcript-recording-${recording.started_at.replace(/[:.]/g, '-')}.json`,
+    'application/json'
+  );
+}
+
+type Listener = (...args: never[]) => void;
+
+/**
+ * Minimal stand-in for IAgoraRTCClient that only emits the events
+ * MessageEngine listens to. Give it to a MessageEngine and feed it with
+ * replayRecording().
+ */
+export class ReplayRTCClient {
+  protected listeners = new Map<string, Set<Listener>>();
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+  }
+
+  off(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => {
+      (listener as (...args: unknown[]) => void)(...args);
+    });
+  }
+
+  asClient() {
+    return this as unknown as IAgoraRTCClient;
+  }
+}
+
+interface ReplayOptions {
+  // 1 replays in real time, 10 ten times faster
+  speed?: number;
+  clock?: Pick<IMessageEngineClock, 'setTimeout'>;
+}
+
+/**
+ * Emits the recorded events on the client with their original spacing,
+ * divided by speed. finished resolves after the last event, or right away
+ * once stop() is called.
+ */
+export function replayRecording(
+  recording: IMessageRecording,
+  client: ReplayRTCClient,
+  {
+    speed = 1,
+    clock = { setTimeout: (callback, ms) => setTimeout(callback, ms) },
+  }: ReplayOptions = {}
+) {
+  if (speed <= 0) {
+    throw new Error('Replay speed must be greater than 0');
+  }
+
+  let isStopped = false;
+  let resolveFinished: () => void = () => {};
+  const finished = new Promise<void>((resolve) => {
+    resolveFinished = resolve;
+  });
+
+  const emitFrom = (index: number) => {
+    if (isStopped) return;
+    const event = recording.events[index];
+
+    if (event.type === 'stream-message') {
+      client.emit('stream-message', event.uid, decodePayload(event.payload));
+    } else {
+      client.emit('audio-metadata', encodePts(event.pts));
+    }
+
+    const next = recording.events[index + 1];
+    if (!next) {
+      resolveFinished();
+      return;
+    }
+    clock.setTimeout(() => emitFrom(index + 1), (next.at - event.at) / speed);
+  };
+
+  const first = recording.events[0];
+  if (first) {
+    clock.setTimeout(() => emitFrom(0), first.at / speed);
+  } else {
+    resolveFinished();
+  }
+
+  return {
+    finished,
+    stop() {
+      isStopped = true;
+      resolveFinished();
+    },
+  };
+}
@@ -0,0 +1,648 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  EMessageEngineErrorCode,
+  EMessageEngineMode,
+  EMessageEngineState,
+  EMessageSpeaker,
+  EMessageStatus,
+  MessageEngine,
+  type IMessageListItem,
+  type MessageEngineError,
+} from '@/lib/message';
+import { parseRecording, replayRecording } from '@/lib/message-recording';
+import { FakeClock } from '@/test/fake-clock';
+import { FakeRTCClient } from '@/test/fake-rtc-client';
+import {
+  AGENT_UID,
+  USER_UID,
+  agentTranscription,
+  agentWordTranscription,
+  legacyMessage,
+  messageInterrupt,
+  toChunks,
+  userTranscription,
+} from '@/test/fixtures/message-streams';
+
+const INTERVAL = 200;
+const MESSAGE_CACHE_TIMEOUT = 5000;
+
+function setup({
+  mode = EMessageEngineMode.AUTO,
+  legacyMode = false,
+}: { mode?: EMessageEngineMode; legacyMode?: boolean } = {}) {
+  const client = new FakeRTCClient();
+  const clock = new FakeClock();
+  const updates: IMessageListItem[][] = [];
+  const errors: MessageEngineError[] = [];
+
+  const engine = new MessageEngine(
+    client.asClient(),
+    mode,
+    (messageList) => updates.push(messageList),
+    { clock, interval: INTERVAL, messageCacheTimeout: MESSAGE_CACHE_TIMEOUT }
+  );
+  engine.onError = (error) => errors.push(error);
+  engine.setAgentUid(AGENT_UID);
+  engine.start({ legacyMode });
+
+  // Sends a message from the agent, optionally split and shuffled
+  const send = (
+    message: object,
+    options: { parts?: number; order?: number[] } = {}
+  ) => {
+    const chunks = toChunks(message, { parts: options.parts });
+    const order = options.order ?? chunks.map((_, index) => index);
+    order.forEach((index) => client.emitStreamMessage(AGENT_UID, chunks[index]));
+  };
+
+  // Plays the agent's audio up to pts and lets WORD mode render one tick
+  const playUntil = (pts: number) => {
+    client.emitPts(pts);
+    clock.advance(INTERVAL);
+  };
+
+  const latest = () => updates[updates.length - 1] ?? [];
+
+  return { client, clock, engine, updates, errors, send, playUntil, latest };
+}
+
+beforeEach(() => {
+  // The engine logs every step, keep the test output readable
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('lifecycle', () => {
+  it('listens to the client only while running', () => {
+    const client = new FakeRTCClient();
+    const engine = new MessageEngine(client.asClient());
+    expect(engine.state).toBe(EMessageEngineState.IDLE);
+    expect(client.listenerCount('stream-message')).toBe(0);
+
+    engine.start();
+    engine.start();
+    expect(engine.state).toBe(EMessageEngineState.RUNNING);
+    expect(client.listenerCount('stream-message')).toBe(1);
+    expect(client.listenerCount('audio-metadata')).toBe(1);
+
+    engine.stop();
+    expect(engine.state).toBe(EMessageEngineState.STOPPED);
+    expect(client.listenerCount('stream-message')).toBe(0);
+    expect(client.listenerCount('audio-metadata')).toBe(0);
+  });
+
+  it('reports state changes', () => {
+    const client = new FakeRTCClient();
+    const engine = new MessageEngine(client.asClient());
+    const changes: string[] = [];
+    engine.onStateChange = (state, prevState) =>
+      changes.push(`${prevState}->${state}`);
+
+    engine.start();
+    engine.stop();
+    engine.start();
+    engine.dispose();
+
+    expect(changes).toEqual([
+      'idle->running',
+      'running->stopped',
+      'stopped->running',
+      'running->stopped',
+      'stopped->disposed',
+    ]);
+  });
+
+  it('keeps the message list when stopped and restarted', () => {
+    const { engine, send, latest } = setup();
+    send(userTranscription(1, 'Hello'));
+
+    engine.stop();
+    engine.start();
+    send(agentTranscription(1, 'Hi there'));
+
+    expect(latest().map((m) => m.text)).toEqual(['Hello', 'Hi there']);
+  });
+
+  it('refuses to start once disposed', () => {
+    const { client, engine, errors } = setup();
+
+    engine.dispose();
+    expect(engine.state).toBe(EMessageEngineState.DISPOSED);
+    expect(client.listenerCount('stream-message')).toBe(0);
+
+    // dispose() drops the callbacks, so listen again before starting
+    engine.onError = (error) => errors.push(error);
+    engine.start();
+    expect(engine.state).toBe(EMessageEngineState.DISPOSED);
+    expect(errors.map((e) => e.code)).toEqual([
+      EMessageEngineErrorCode.DISPOSED,
+    ]);
+  });
+
+  it('reports messages handled while not running', () => {
+    const client = new FakeRTCClient();
+    const engine = new MessageEngine(client.asClient());
+    const errors: MessageEngineError[] = [];
+    engine.onError = (error) => errors.push(error);
+
+    engine.handleStreamMessage(new TextEncoder().encode('x|1|1|e30='));
+
+    expect(errors.map((e) => e.code)).toEqual([
+      EMessageEngineErrorCode.NOT_RUNNING,
+    ]);
+  });
+
+  it('leaves no timers running once disposed', () => {
+    const { clock, engine, send } = setup();
+    send(agentWordTranscription(1, 'Hello', 0, EMessageStatus.IN_PROGRESS));
+    expect(clock.pendingTimers).toBeGreaterThan(0);
+
+    engine.dispose();
+    clock.advance(MESSAGE_CACHE_TIMEOUT);
+
+    expect(clock.pendingTimers).toBe(0);
+  });
+});
+
+describe('chunk reassembly', () => {
+  it('decodes a message sent in one part', () => {
+    const { send, latest } = setup();
+    send(userTranscription(1, 'Hello'));
+
+    expect(latest()).toEqual([
+      expect.objectContaining({
+        uid: USER_UID,
+        turn_id: 1,
+        text: 'Hello',
+        status: EMessageStatus.END,
+        speaker: EMessageSpeaker.USER,
+      }),
+    ]);
+  });
+
+  it('reassembles parts that arrive out of order', () => {
+    const { send, updates, latest } = setup();
+    send(userTranscription(1, 'A message long enough to split'), {
+      parts: 4,
+      order: [2, 0, 3, 1],
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(latest()[0].text).toBe('A message long enough to split');
+  });
+
+  it('ignores duplicate parts', () => {
+    const { send, updates, latest } = setup();
+    send(userTranscription(1, 'Said only once'), {
+      parts: 3,
+      order: [0, 0, 1, 1, 2],
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(latest()).toHaveLength(1);
+  });
+
+  it('waits for parts when the total is unknown', () => {
+    const { client, updates } = setup();
+    client.emitStreamMessage(AGENT_UID, 'msg-unknown|1|???|e30=');
+
+    expect(updates).toHaveLength(0);
+  });
+
+  it('drops an incomplete message after the cache timeout', () => {
+    const { client, clock, updates } = setup();
+    const chunks = toChunks(userTranscription(1, 'Never finished'), {
+      parts: 2,
+    });
+
+    client.emitStreamMessage(AGENT_UID, chunks[0]);
+    clock.advance(MESSAGE_CACHE_TIMEOUT);
+    client.emitStreamMessage(AGENT_UID, chunks[1]);
+
+    expect(updates).toHaveLength(0);
+  });
+
+  it('completes a message whose last part arrives before the timeout', () => {
+    const { client, clock, latest } = setup();
+    const chunks = toChunks(userTranscription(1, 'Just in time'), {
+      parts: 2,
+    });
+
+    client.emitStreamMessage(AGENT_UID, chunks[0]);
+    clock.advance(MESSAGE_CACHE_TIMEOUT - 1);
+    client.emitStreamMessage(AGENT_UID, chunks[1]);
+
+    expect(latest()[0].text).toBe('Just in time');
+  });
+
+  it('reports parts that do not decode', () => {
+    const { client, errors, updates } = setup();
+    client.emitStreamMessage(AGENT_UID, 'msg-bad|1|1|not base64 json');
+
+    expect(updates).toHaveLength(0);
+    expect(errors.map((e) => e.code)).toEqual([
+      EMessageEngineErrorCode.DECODE_FAILED,
+    ]);
+  });
+
+  it('drops stream messages from other uids', () => {
+    const { client, updates } = setup();
+    toChunks(userTranscription(1, 'Not from the agent')).forEach((chunk) =>
+      client.emitStreamMessage(USER_UID, chunk)
+    );
+
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe('TEXT mode', () => {
+  it('switches to TEXT mode when agent transcripts have no words', () => {
+    const { engine, send } = setup();
+    send(agentTranscription(1, 'Hi there'));
+
+    expect(engine.mode).toBe(EMessageEngineMode.TEXT);
+  });
+
+  it('keeps user and agent turns apart', () => {
+    const { send, latest } = setup();
+    send(agentTranscription(0, 'Welcome!'));
+    send(userTranscription(1, 'Hello'));
+    send(agentTranscription(1, 'Hi there'));
+
+    expect(latest().map((m) => [m.turn_id, m.speaker, m.text])).toEqual([
+      [0, EMessageSpeaker.AGENT, 'Welcome!'],
+      [1, EMessageSpeaker.USER, 'Hello'],
+      [1, EMessageSpeaker.AGENT, 'Hi there'],
+    ]);
+  });
+
+  it('updates a turn in place as more text arrives', () => {
+    const { send, latest } = setup();
+    send(agentTranscription(1, 'Hi', EMessageStatus.IN_PROGRESS));
+    send(agentTranscription(1, 'Hi there', EMessageStatus.END));
+
+    expect(latest()).toHaveLength(1);
+    expect(latest()[0]).toMatchObject({
+      text: 'Hi there',
+      status: EMessageStatus.END,
+    });
+  });
+
+  it('keeps an agent turn in progress until it ends', () => {
+    const { send, latest } = setup();
+    send(agentTranscription(1, 'Run `pnpm', EMessageStatus.IN_PROGRESS));
+
+    expect(latest()[0].status).toBe(EMessageStatus.IN_PROGRESS);
+  });
+
+  it('keeps a late user transcription ahead of the reply', () => {
+    const { send, latest } = setup();
+    send(agentTranscription(1, 'Hi there'));
+    send(userTranscription(1, 'Hello'));
+
+    expect(latest().map((m) => m.speaker)).toEqual([
+      EMessageSpeaker.USER,
+      EMessageSpeaker.AGENT,
+    ]);
+  });
+
+  it('marks an interrupted turn and keeps it interrupted', () => {
+    const { send, latest } = setup();
+    send(agentTranscription(1, 'Let me tell', EMessageStatus.IN_PROGRESS));
+    send(messageInterrupt(1, 0));
+    send(agentTranscription(1, 'Let me tell you', EMessageStatus.END));
+
+    expect(latest()[0]).toMatchObject({
+      text: 'Let me tell you',
+      status: EMessageStatus.INTERRUPTED,
+    });
+  });
+
+  it('interrupts the agent turn in flight from the UI', () => {
+    const { engine, send, latest } = setup();
+    send(agentTranscription(1, 'Let me tell', EMessageStatus.IN_PROGRESS));
+
+    expect(engine.interruptAgentTurn()).toBe(true);
+    expect(latest()[0].status).toBe(EMessageStatus.INTERRUPTED);
+  });
+
+  it('adds typed user messages as the next turn', () => {
+    const { engine, send, latest } = setup();
+    send(agentTranscription(1, 'Hi there'));
+    engine.addUserTextMessage('Typed', USER_UID);
+
+    expect(latest()[1]).toMatchObject({
+      turn_id: 2,
+      text: 'Typed',
+      speaker: EMessageSpeaker.USER,
+    });
+  });
+
+  it('moves typed text to the turn the agent echoes it with', () => {
+    const { engine, send, latest } = setup();
+    send(agentTranscription(1, 'Hi there'));
+    // A voice turn is still being transcribed, so the guess (2) is wrong
+    engine.addUserTextMessage('Typed', USER_UID);
+    send(userTranscription(3, 'Typed'));
+    send(userTranscription(2, 'Hello'));
+    send(agentTranscription(3, 'Got it'));
+
+    expect(latest().map((m) => [m.turn_id, m.speaker, m.text])).toEqual([
+      [1, EMessageSpeaker.AGENT, 'Hi there'],
+      [2, EMessageSpeaker.USER, 'Hello'],
+      [3, EMessageSpeaker.USER, 'Typed'],
+      [3, EMessageSpeaker.AGENT, 'Got it'],
+    ]);
+  });
+
+  it('keeps typed text when a voice turn takes its guessed turn', () => {
+    const { engine, send, latest } = setup();
+    send(agentTranscription(1, 'Hi there'));
+    engine.addUserTextMessage('Typed', USER_UID);
+    send(userTranscription(2, 'Hello'));
+
+    expect(latest().map((m) => [m.turn_id, m.text])).toEqual([
+      [1, 'Hi there'],
+      [2, 'Typed'],
+      [2, 'Hello'],
+    ]);
+
+    send(userTranscription(3, 'Typed'));
+    expect(latest().map((m) => [m.turn_id, m.text])).toEqual([
+      [1, 'Hi there'],
+      [2, 'Hello'],
+      [3, 'Typed'],
+    ]);
+  });
+
+  it('reports when each turn was spoken', () => {
+    const { engine, clock, send, latest } = setup();
+    send({ ...userTranscription(1, 'Hello'), start_ms: 400, duration_ms: 900 });
+    engine.addUserTextMessage('Typed', USER_UID);
+
+    expect(latest()[0]).toMatchObject({
+      timestamp: clock.now(),
+      start_ms: 400,
+      duration_ms: 900,
+    });
+    // Typed text was never spoken
+    expect(latest()[1].start_ms).toBeUndefined();
+  });
+
+  it('hands out copies of its items', () => {
+    const { send, updates } = setup();
+    send(agentTranscription(1, 'Hi', EMessageStatus.IN_PROGRESS));
+    send(agentTranscription(1, 'Hi there', EMessageStatus.END));
+
+    expect(updates[0][0].text).toBe('Hi');
+  });
+});
+
+describe('WORD mode', () => {
+  it('switches to WORD mode when agent transcripts have words', () => {
+    const { engine, send } = setup();
+    send(agentWordTranscription(1, 'Hello', 0, EMessageStatus.IN_PROGRESS));
+
+    expect(engine.mode).toBe(EMessageEngineMode.WORD);
+  });
+
+  it('reveals words as the audio plays', () => {
+    const { send, playUntil, latest } = setup();
+    send(
+      agentWordTranscription(
+        1,
+        'Hello there friend',
+        0,
+        EMessageStatus.IN_PROGRESS
+      )
+    );
+
+    playUntil(150);
+    expect(latest()[0]).toMatchObject({
+      text: 'Hello there',
+      status: EMessageStatus.IN_PROGRESS,
+    });
+    expect(latest()[0].words?.map((w) => w.word)).toEqual(['Hello', ' there']);
+
+    send(agentWordTranscription(1, 'Hello there friend', 0));
+    playUntil(250);
+    expect(latest()[0]).toMatchObject({
+      text: 'Hello there friend',
+      status: EMessageStatus.END,
+    });
+    expect(latest()[0].words).toHaveLength(3);
+  });
+
+  it('times turns by their words', () => {
+    const { send, playUntil, latest } = setup();
+    send(agentWordTranscription(1, 'Hello there friend', 1000));
+    playUntil(1300);
+
+    expect(latest()[0]).toMatchObject({ start_ms: 1000, duration_ms: 300 });
+  });
+
+  it('splits words at the interrupt point', () => {
+    const { send, playUntil, latest } = setup();
+    send(
+      agentWordTranscription(
+        1,
+        'Hello there friend',
+        0,
+        EMessageStatus.IN_PROGRESS
+      )
+    );
+    send(messageInterrupt(1, 100));
+
+    playUntil(150);
+    const [turn] = latest();
+    expect(turn.status).toBe(EMessageStatus.INTERRUPTED);
+    expect(turn.text).toBe('Hello');
+    expect(turn.words?.map((w) => w.word_status)).toEqual([
+      EMessageStatus.IN_PROGRESS,
+      EMessageStatus.INTERRUPTED,
+    ]);
+  });
+
+  it('ignores late chunks for an interrupted turn', () => {
+    const { engine, send } = setup();
+    send(
+      agentWordTranscription(
+        1,
+        'Hello there friend',
+        0,
+        EMessageStatus.IN_PROGRESS
+      )
+    );
+    send(messageInterrupt(1, 100));
+    send(agentWordTranscription(1, 'Hello there friend', 0));
+
+    const queueItem = (
+      engine as unknown as { _queue: { status: EMessageStatus }[] }
+    )._queue[0];
+    expect(queueItem.status).toBe(EMessageStatus.INTERRUPTED);
+  });
+
+  it('interrupts the previous turn once the next one starts playing', () => {
+    const { send, playUntil, latest } = setup();
+    send(agentWordTranscription(1, 'First turn', 0, EMessageStatus.IN_PROGRESS));
+    playUntil(50);
+    send(agentWordTranscription(2, 'Second turn', 1000));
+
+    playUntil(500);
+    expect(latest().map((m) => m.turn_id)).toEqual([1]);
+
+    playUntil(1100);
+    expect(latest().map((m) => [m.turn_id, m.status])).toEqual([
+      [1, EMessageStatus.INTERRUPTED],
+      [2, EMessageStatus.END],
+    ]);
+  });
+
+  it('keeps rendering the current turn while the next has no words yet', () => {
+    const { send, playUntil, latest } = setup();
+    send(agentWordTranscription(1, 'First turn', 0, EMessageStatus.IN_PROGRESS));
+    send(agentTranscription(2, '', EMessageStatus.IN_PROGRESS, []));
+
+    playUntil(50);
+    expect(latest()[0]).toMatchObject({ turn_id: 1, text: 'First' });
+  });
+
+  it('drops superseded turns when more than two are queued', () => {
+    const { engine, send, playUntil, latest } = setup();
+    send(agentWordTranscription(1, 'First turn', 0, EMessageStatus.IN_PROGRESS));
+    playUntil(50);
+    send(agentWordTranscription(2, 'Second turn', 1000));
+    send(agentWordTranscription(3, 'Third turn', 2000));
+
+    playUntil(2100);
+    expect(latest().map((m) => [m.turn_id, m.status])).toEqual([
+      [1, EMessageStatus.INTERRUPTED],
+      [3, EMessageStatus.END],
+    ]);
+    expect((engine as unknown as { _queue: unknown[] })._queue).toHaveLength(0);
+  });
+});
+
+describe('legacy mode', () => {
+  it('merges partial results into one item per speaker', () => {
+    const { send, latest } = setup({ legacyMode: true });
+    send(legacyMessage(0, 'Hi', 1000, false));
+    send(legacyMessage(0, 'Hi there', 1100, true));
+    send(legacyMessage(USER_UID, 'Hello', 1200, true));
+
+    expect(latest().map((m) => [m.speaker, m.text, m.status])).toEqual([
+      [EMessageSpeaker.AGENT, 'Hi there', EMessageStatus.END],
+      [EMessageSpeaker.USER, 'Hello', EMessageStatus.END],
+    ]);
+  });
+
+  it('discards results older than the last finished item', () => {
+    const { send, latest } = setup({ legacyMode: true });
+    send(legacyMessage(0, 'Hi there', 1100, true));
+    send(legacyMessage(0, 'Hi', 1000, false));
+
+    expect(latest().map((m) => m.text)).toEqual(['Hi there']);
+  });
+
+  it('has no agent turn to interrupt from the UI', () => {
+    const { engine, send, latest } = setup({ legacyMode: true });
+    send(legacyMessage(0, 'Hi', 1000, false));
+
+    expect(engine.interruptAgentTurn()).toBe(false);
+    expect(latest()[0].status).toBe(EMessageStatus.IN_PROGRESS);
+  });
+});
+
+describe('recording', () => {
+  it('records raw traffic, including other uids', () => {
+    const { client, clock, engine, send } = setup();
+    engine.startRecording();
+
+    send(userTranscription(1, 'Hello'));
+    clock.advance(100);
+    client.emitPts(42);
+    toChunks(userTranscription(2, 'Ignored')).forEach((chunk) =>
+      client.emitStreamMessage(USER_UID, chunk)
+    );
+
+    const recording = engine.stopRecording();
+    expect(engine.isRecording).toBe(false);
+    expect(recording?.agent_uid).toBe(String(AGENT_UID));
+    expect(
+      recording?.events.map((e) =>
+        e.type === 'stream-message' ? [e.at, e.type, e.uid] : [e.at, e.type]
+      )
+    ).toEqual([
+      [0, 'stream-message', AGENT_UID],
+      [100, 'audio-metadata'],
+      [100, 'stream-message', USER_UID],
+    ]);
+  });
+
+  it('replays a recording into the same transcript', async () => {
+    const original = setup();
+    original.engine.startRecording();
+    original.send(
+      agentWordTranscription(
+        1,
+        'Hello there friend',
+        0,
+        EMessageStatus.IN_PROGRESS
+      ),
+      { parts: 3, order: [1, 2, 0] }
+    );
+    original.playUntil(150);
+    original.send(messageInterrupt(1, 100));
+    original.playUntil(200);
+    const recording = parseRecording(
+      JSON.stringify(original.engine.stopRecording())
+    );
+
+    const replay = setup();
+    const { finished } = replayRecording(recording, replay.client, {
+      speed: 10,
+      clock: replay.clock,
+    });
+    // Ten times faster, plus a tick for WORD mode to render the last event
+    replay.clock.advance(recording.events[recording.events.length - 1].at / 10);
+    replay.clock.advance(INTERVAL);
+    await finished;
+
+    // Only the wall clock time differs, the replay ran ten times faster
+    const withoutTimestamp = (messages: IMessageListItem[]) =>
+      messages.map(({ timestamp: _timestamp, ...message }) => message);
+    expect(withoutTimestamp(replay.latest())).toEqual(
+      withoutTimestamp(original.latest())
+    );
+    expect(replay.latest()[0].status).toBe(EMessageStatus.INTERRUPTED);
+  });
+
+  it('stops replaying when asked', () => {
+    const original = setup();
+    original.engine.startRecording();
+    original.send(userTranscription(1, 'First'));
+    original.clock.advance(1000);
+    original.send(userTranscription(2, 'Second'));
+    const recording = original.engine.stopRecording()!;
+
+    const replay = setup();
+    const { stop } = replayRecording(recording, replay.client, {
+      clock: replay.clock,
+    });
+    replay.clock.advance(500);
+    stop();
+    replay.clock.advance(1000);
+
+    expect(replay.latest().map((m) => m.text)).toEqual(['First']);
+  });
+
+  it('rejects files that are not recordings', () => {
+    expect(() => parseRecording('{"version":2}')).toThrow(
+      /Invalid recording/
+    );
+  });
+});
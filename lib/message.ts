@@ -1,5 +1,10 @@
 import { decodeStreamMessage } from '@/lib/utils';
 import { IAgoraRTCClient, UID } from 'agora-rtc-react';
+import {
+  encodePayload,
+  type IMessageRecording,
+  type TMessageRecordingEvent,
+} from '@/lib/message-recording';
 
 const DEFAULT_MESSAGE_CACHE_TIMEOUT = 1000 * 60 * 5; // 5 minutes
 const DEFAULT_INTERVAL = 200; // milliseconds
@@ -14,6 +19,11 @@ export type TDataChunk = {
 
 const logger = console;
 
+// Omit for each member of a union, so discriminated unions stay discriminated
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
 export type TDataChunkMessageV1 = {
   /** Boolean indicating if the text will no longer change (always True for ASR results) */
   is_final: boolean;
@@ -62,6 +72,13 @@ export enum EMessageStatus {
   INTERRUPTED = 2,
 }
 
+// Who a chat history item belongs to, decided by the transcript type rather
+// than the stream_id, which differs between agent setups
+export enum EMessageSpeaker {
+  AGENT = 'agent',
+  USER = 'user',
+}
+
 export enum ETranscriptionObjectType {
   USER_TRANSCRIPTION = 'user.transcription',
   AGENT_TRANSCRIPTION = 'assistant.transcription',
@@ -86,6 +103,69 @@ export enum EMessageEngineMode {
   AUTO = 'auto',
 }
 
+/**
+ * Lifecycle of a MessageEngine
+ *
+ * IDLE: Created, not listening to the RTC client yet
+ * RUNNING: Listening to stream messages and updating the message list
+ * STOPPED: Detached from the RTC client, the message list is kept
+ * DISPOSED: Torn down for good, the engine can't be started again
+ */
+export enum EMessageEngineState {
+  IDLE = 'idle',
+  RUNNING = 'running',
+  STOPPED = 'stopped',
+  DISPOSED = 'disposed',
+}
+
+export enum EMessageEngineErrorCode {
+  // A message arrived or a timer was started while the engine wasn't running
+  NOT_RUNNING = 'not_running',
+  // A stream message chunk couldn't be reassembled or decoded
+  DECODE_FAILED = 'decode_failed',
+  // start() was called after dispose()
+  DISPOSED = 'disposed',
+}
+
+/**
+ * Time source and timers used by the engine. Defaults to the global ones,
+ * tests pass a fake clock to control message cache timeouts and WORD mode ticks.
+ */
+export interface IMessageEngineClock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  setInterval: (callback: () => void, ms: number) => unknown;
+  clearInterval: (handle: unknown) => void;
+}
+
+const systemClock: IMessageEngineClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) =>
+    clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+export interface IMessageEngineOptions {
+  clock?: IMessageEngineClock;
+  // How often WORD mode renders the queue, in milliseconds
+  interval?: number;
+  // How long an incomplete chunked message is kept, in milliseconds
+  messageCacheTimeout?: number;
+}
+
+export class MessageEngineError extends Error {
+  readonly code: EMessageEngineErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: EMessageEngineErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'MessageEngineError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
 export interface ITranscriptionBase {
   object: ETranscriptionObjectType;
   text: string;
@@ -125,12 +205,25 @@ export interface IMessageInterrupt {
  * @property turn_id - ID representing the turn/sequence in the conversation
  * @property text - The actual message content/transcript
  * @property status - Current status of the message (e.g. in progress, completed, interrupted)
+ * @property speaker - Whether the agent or the user said it
+ * @property words - WORD mode only: the agent's words spoken so far, with
+ * timing and status. While the turn is in progress the last word is the one
+ * being spoken, interrupted words have word_status INTERRUPTED.
+ * @property timestamp - Wall clock time in ms the engine orders the turn by
+ * @property start_ms - Where the turn starts in the speaker's audio stream, in
+ * ms. Missing for turns without audio, e.g. text the user typed.
+ * @property duration_ms - How long the turn has been speaking, in ms
  */
 export interface IMessageListItem {
   uid: number;
   turn_id: number;
   text: string;
   status: EMessageStatus;
+  speaker: EMessageSpeaker;
+  words?: TMessageEngineObjectWord[];
+  timestamp: number;
+  start_ms?: number;
+  duration_ms?: number;
 }
 
 interface IMessageArrayItem<T> {
@@ -139,8 +232,34 @@ interface IMessageArrayItem<T> {
   _time: number;
   text: string;
   status: EMessageStatus;
+  speaker: EMessageSpeaker;
+  words?: TMessageEngineObjectWord[];
   metadata: T | null;
 }
+// WORD mode turns are timed by their words, other turns by the transcription
+function getTurnTiming(
+  item: IMessageArrayItem<Partial<ITranscriptionBase>>
+): Pick<IMessageListItem, 'start_ms' | 'duration_ms'> {
+  const words = item.words;
+  if (words?.length) {
+    const first = words[0];
+    const last = words[words.length - 1];
+    return {
+      start_ms: first.start_ms,
+      duration_ms: last.start_ms + last.duration_ms - first.start_ms,
+    };
+  }
+  return {
+    start_ms: item.metadata?.start_ms,
+    duration_ms: item.metadata?.duration_ms,
+  };
+}
+
+// Legacy v1 messages mark the agent with stream_id 0
+function getLegacySpeaker(message: TDataChunkMessageV1): EMessageSpeaker {
+  return message.stream_id === 0 ? EMessageSpeaker.AGENT : EMessageSpeaker.USER;
+}
+
 /**
  * Message engine that handles real-time transcription and subtitle rendering
  *
@@ -154,9 +273,14 @@ interface IMessageArrayItem<T> {
  * interruptions, and partial updates. It emits updates through a callback when
  * the message list changes.
  *
+ * The engine only listens to the RTC client between start() and stop().
+ * dispose() stops it for good and clears all state. Lifecycle changes are
+ * reported through onStateChange and failures through onError.
+ *
  * @property rtcEngine - RTC engine instance for real-time communication
  * @property renderMode - Mode for subtitle rendering (Auto, Text, or Word)
  * @property callback - Callback function invoked when message list updates
+ * @property options - Clock and timing overrides, see IMessageEngineOptions
  */
 export class MessageEngine {
   // handle rtc-engine stream message
@@ -169,15 +293,24 @@ export class MessageEngine {
   private _mode: EMessageEngineMode = EMessageEngineMode.AUTO; // mode should only be set once
   private _queue: TQueueItem[] = [];
   private _interval: number = DEFAULT_INTERVAL; // milliseconds
-  private _intervalRef: NodeJS.Timeout | null = null;
+  private _intervalRef: unknown = null;
+  private _clock: IMessageEngineClock = systemClock;
   private _pts: number = 0; // current pts
   private _lastPoppedQueueItem: TQueueItem | null | undefined = null;
-  private _isRunning: boolean = false;
+  private _state: EMessageEngineState = EMessageEngineState.IDLE;
   private _rtcEngine: IAgoraRTCClient | null = null;
+  // RTC uid of the agent, only its stream messages carry transcripts
+  private _agentUid: string | null = null;
+  private _recording: IMessageRecording | null = null;
+  private _recordingStartedAt: number = 0;
 
   public messageList: IMessageArrayItem<
     Partial<IUserTranscription | IAgentTranscription>
   >[] = [];
+  // Typed user text the agent hasn't echoed back yet, see addUserTextMessage
+  private _pendingUserTextItems: IMessageArrayItem<
+    Partial<IUserTranscription | IAgentTranscription>
+  >[] = [];
   /**
    * Callback function that gets triggered whenever the message list is updated
    * Takes the updated message list as a parameter and returns void
@@ -186,50 +319,219 @@ export class MessageEngine {
   public onMessageListUpdate:
     | ((messageList: IMessageListItem[]) => void)
     | null = null;
+  // Called with the new and previous state whenever the lifecycle changes
+  public onStateChange:
+    | ((state: EMessageEngineState, prevState: EMessageEngineState) => void)
+    | null = null;
+  public onError: ((error: MessageEngineError) => void) | null = null;
 
   constructor(
     rtcEngine: IAgoraRTCClient,
     renderMode?: EMessageEngineMode,
-    callback?: (messageList: IMessageListItem[]) => void
+    callback?: (messageList: IMessageListItem[]) => void,
+    options?: IMessageEngineOptions
   ) {
     this._rtcEngine = rtcEngine;
-    this._listenRtcEvents();
-    this.run({
-      legacyMode: false,
-    });
+    this._clock = options?.clock ?? systemClock;
+    this._interval = options?.interval ?? DEFAULT_INTERVAL;
+    this._messageCacheTimeout =
+      options?.messageCacheTimeout ?? DEFAULT_MESSAGE_CACHE_TIMEOUT;
     this.setMode(renderMode ?? EMessageEngineMode.AUTO);
     this.onMessageListUpdate = callback ?? null;
   }
 
+  public get state(): EMessageEngineState {
+    return this._state;
+  }
+
+  // AUTO until the first agent transcript shows whether words are included
+  public get mode(): EMessageEngineMode {
+    return this._mode;
+  }
+
+  public get isRunning(): boolean {
+    return this._state === EMessageEngineState.RUNNING;
+  }
+
+  private _setState(state: EMessageEngineState) {
+    const prevState = this._state;
+    if (prevState === state) {
+      return;
+    }
+    this._state = state;
+    logger.debug(CONSOLE_LOG_PREFIX, 'State change', prevState, '->', state);
+    this.onStateChange?.(state, prevState);
+  }
+
+  private _emitError(
+    code: EMessageEngineErrorCode,
+    message: string,
+    cause?: unknown
+  ) {
+    const error = new MessageEngineError(code, message, cause);
+    logger.warn(CONSOLE_LOG_PREFIX, error.message, cause ?? '');
+    this.onError?.(error);
+  }
+
+  private _handleAudioMetadata = (metadata: Uint8Array) => {
+    const pts64 = Number(new DataView(metadata.buffer).getBigUint64(0, true));
+    this._record({ type: 'audio-metadata', pts: pts64 });
+    this.setPts(pts64);
+  };
+
+  private _handleRtcStreamMessage = (uid: UID, payload: Uint8Array) => {
+    this._record({
+      type: 'stream-message',
+      uid,
+      payload: encodePayload(payload),
+    });
+    if (!this.isAgentUid(uid)) {
+      logger.debug(
+        CONSOLE_LOG_PREFIX,
+        'Drop stream message from non-agent uid',
+        uid
+      );
+      return;
+    }
+    this.handleStreamMessage(payload);
+  };
+
   private _listenRtcEvents() {
     if (!this._rtcEngine) {
       return;
     }
-    this._rtcEngine.on('audio-metadata', (metadata: Uint8Array) => {
-      const pts64 = Number(new DataView(metadata.buffer).getBigUint64(0, true));
-      this.setPts(pts64);
-    });
+    this._rtcEngine.on('audio-metadata', this._handleAudioMetadata);
+    this._rtcEngine.on('stream-message', this._handleRtcStreamMessage);
+  }
 
-    this._rtcEngine.on('stream-message', (_: UID, payload: Uint8Array) => {
-      this.handleStreamMessage(payload);
-    });
+  private _unlistenRtcEvents() {
+    if (!this._rtcEngine) {
+      return;
+    }
+    this._rtcEngine.off('audio-metadata', this._handleAudioMetadata);
+    this._rtcEngine.off('stream-message', this._handleRtcStreamMessage);
   }
 
-  public run(options?: { legacyMode?: boolean }) {
-    this._isRunning = true;
+  /**
+   * Sets the RTC uid the agent joined with (returned by invite-agent).
+   * Until it is known, stream messages from every uid are accepted.
+   */
+  public setAgentUid(uid: UID | null | undefined) {
+    this._agentUid = uid === null || uid === undefined ? null : uid.toString();
+  }
+
+  public isAgentUid(uid: UID): boolean {
+    return this._agentUid === null || uid.toString() === this._agentUid;
+  }
+
+  /**
+   * Starts listening to the RTC client's stream messages. Starting a stopped
+   * engine resumes it with its message list intact. Calling start() on a
+   * running engine does nothing.
+   */
+  public start(options?: { legacyMode?: boolean }) {
+    if (this._state === EMessageEngineState.DISPOSED) {
+      this._emitError(
+        EMessageEngineErrorCode.DISPOSED,
+        'Message service was disposed and cannot be started again'
+      );
+      return;
+    }
     this._legacyMode = options?.legacyMode ?? false;
+    if (this._state === EMessageEngineState.RUNNING) {
+      return;
+    }
+    this._listenRtcEvents();
+    this._setState(EMessageEngineState.RUNNING);
+    // WORD mode renders from the queue, resume it if the mode is already known
+    if (this._mode === EMessageEngineMode.WORD) {
+      this.setupInterval();
+    }
+  }
+
+  /** @deprecated use start() */
+  public run(options?: { legacyMode?: boolean }) {
+    this.start(options);
+  }
+
+  // Stops listening to the RTC client, keeps the message list
+  public stop() {
+    if (this._state !== EMessageEngineState.RUNNING) {
+      return;
+    }
+    this._unlistenRtcEvents();
+    this.teardownInterval();
+    this._setState(EMessageEngineState.STOPPED);
+  }
+
+  // Stops the engine for good, clears all state and drops the callbacks
+  public dispose() {
+    if (this._state === EMessageEngineState.DISPOSED) {
+      return;
+    }
+    this.stop();
+    this.cleanup();
+    this._setState(EMessageEngineState.DISPOSED);
+    this.onMessageListUpdate = null;
+    this.onStateChange = null;
+    this.onError = null;
+    this._recording = null;
+    this._rtcEngine = null;
+  }
+
+  public get isRecording(): boolean {
+    return this._recording !== null;
+  }
+
+  /**
+   * Starts capturing the raw stream-message and audio-metadata events the
+   * engine receives, including those from other uids. Restarts the
+   * recording if one is in progress.
+   */
+  public startRecording() {
+    this._recordingStartedAt = this._clock.now();
+    this._recording = {
+      version: 1,
+      started_at: new Date(this._recordingStartedAt).toISOString(),
+      agent_uid: this._agentUid,
+      events: [],
+    };
+  }
+
+  // Returns a copy of the recording so far and keeps recording
+  public getRecording(): IMessageRecording | null {
+    return this._recording
+      ? { ...this._recording, events: [...this._recording.events] }
+      : null;
+  }
+
+  // Ends the recording and returns it, null if none was in progress
+  public stopRecording(): IMessageRecording | null {
+    const recording = this._recording;
+    this._recording = null;
+    return recording;
+  }
+
+  private _record(event: DistributiveOmit<TMessageRecordingEvent, 'at'>) {
+    this._recording?.events.push({
+      ...event,
+      at: this._clock.now() - this._recordingStartedAt,
+    });
   }
 
   public setupInterval() {
-    if (!this._isRunning) {
-      console.error(CONSOLE_LOG_PREFIX, 'Message service is not running');
+    if (!this.isRunning) {
+      this._emitError(
+        EMessageEngineErrorCode.NOT_RUNNING,
+        'Message service is not running'
+      );
       return;
     }
     if (this._intervalRef) {
-      clearInterval(this._intervalRef);
+      this._clock.clearInterval(this._intervalRef);
       this._intervalRef = null;
     }
-    this._intervalRef = setInterval(
+    this._intervalRef = this._clock.setInterval(
       this._handleQueue.bind(this),
       this._interval
     );
@@ -237,7 +539,7 @@ export class MessageEngine {
 
   public teardownInterval() {
     if (this._intervalRef) {
-      clearInterval(this._intervalRef);
+      this._clock.clearInterval(this._intervalRef);
       this._intervalRef = null;
     }
   }
@@ -249,8 +551,11 @@ export class MessageEngine {
   }
 
   public handleStreamMessage(stream: Uint8Array) {
-    if (!this._isRunning) {
-      logger.warn(CONSOLE_LOG_PREFIX, 'Message service is not running');
+    if (!this.isRunning) {
+      this._emitError(
+        EMessageEngineErrorCode.NOT_RUNNING,
+        'Message service is not running'
+      );
       return;
     }
     const chunk = this.streamMessage2Chunk(stream);
@@ -322,6 +627,7 @@ export class MessageEngine {
             status: message.is_final
               ? EMessageStatus.END
               : EMessageStatus.IN_PROGRESS,
+            speaker: getLegacySpeaker(message),
             metadata: null,
           });
         }
@@ -350,6 +656,7 @@ export class MessageEngine {
           status: message.is_final
             ? EMessageStatus.END
             : EMessageStatus.IN_PROGRESS,
+          speaker: getLegacySpeaker(message),
           metadata: null,
         });
       }
@@ -388,7 +695,7 @@ export class MessageEngine {
       return;
     }
     if (isAgentMessage && this._mode === EMessageEngineMode.TEXT) {
-      this.handleTextMessage(message as unknown as IUserTranscription);
+      this.handleTextMessage(message);
       return;
     }
     // handle User Message
@@ -405,29 +712,47 @@ export class MessageEngine {
     console.error(CONSOLE_LOG_PREFIX, 'Unknown mode', message);
   }
 
-  public handleTextMessage(message: IUserTranscription) {
+  public handleTextMessage(message: IUserTranscription | IAgentTranscription) {
     const turn_id = message.turn_id;
     const text = message.text || '';
     const stream_id = message.stream_id;
-    const turn_status = EMessageStatus.END;
+    const isAgent =
+      message.object === ETranscriptionObjectType.AGENT_TRANSCRIPTION;
+    const speaker = isAgent ? EMessageSpeaker.AGENT : EMessageSpeaker.USER;
+    // agent turns stream in until END, user transcriptions arrive whole
+    const turn_status = isAgent ? message.turn_status : EMessageStatus.END;
 
-    const targetChatHistoryItem = this.messageList.find(
-      (item) => item.turn_id === turn_id && item.uid === stream_id
-    );
+    const pendingItem =
+      speaker === EMessageSpeaker.USER
+        ? this._takePendingUserText(text, turn_id)
+        : undefined;
+    const targetChatHistoryItem =
+      pendingItem ??
+      // typed text waits for its echo, its guessed turn_id may belong to a
+      // voice turn that is still being transcribed
+      this.messageList.find(
+        (item) =>
+          item.turn_id === turn_id &&
+          item.speaker === speaker &&
+          !this._pendingUserTextItems.includes(item)
+      );
     // if not found, push to messageList
     if (!targetChatHistoryItem) {
       this._appendChatHistory({
         turn_id,
         uid: stream_id,
-        _time: new Date().getTime(),
+        _time: this._clock.now(),
         text,
         status: turn_status,
+        speaker,
         metadata: message,
       });
     } else {
-      // if found, update text and status
+      // if found, update text and status (an interrupted turn stays interrupted)
       targetChatHistoryItem.text = text;
-      targetChatHistoryItem.status = turn_status;
+      if (targetChatHistoryItem.status !== EMessageStatus.INTERRUPTED) {
+        targetChatHistoryItem.status = turn_status;
+      }
       targetChatHistoryItem.metadata = message;
     }
     this._mutateChatHistory();
@@ -441,6 +766,81 @@ export class MessageEngine {
       turn_id,
       start_ms,
     });
+    // TEXT mode has no queue, mark the agent's chat history item directly
+    if (this._mode === EMessageEngineMode.TEXT) {
+      const correspondingChatHistoryItem = this.messageList.find(
+        (item) =>
+          item.turn_id === turn_id && item.speaker === EMessageSpeaker.AGENT
+      );
+      if (correspondingChatHistoryItem) {
+        correspondingChatHistoryItem.status = EMessageStatus.INTERRUPTED;
+      }
+    }
+    this._mutateChatHistory();
+  }
+
+  /**
+   * Marks the agent turn that is currently in flight as interrupted, exactly as
+   * a message.interrupt event from the agent would. Used when the user stops the
+   * agent from the UI instead of barging in by voice.
+   * Returns false if no agent turn is in flight.
+   */
+  public interruptAgentTurn(): boolean {
+    const inFlightTurnId =
+      this._mode === EMessageEngineMode.WORD
+        ? this._queue[this._queue.length - 1]?.turn_id
+        : this.messageList.findLast(
+            (item) =>
+              item.speaker === EMessageSpeaker.AGENT &&
+              // legacy items carry no metadata
+              (item.metadata as Partial<IAgentTranscription> | null)
+                ?.turn_status === EMessageStatus.IN_PROGRESS
+          )?.turn_id;
+    if (inFlightTurnId === undefined) {
+      logger.debug(CONSOLE_LOG_PREFIX, 'No agent turn in flight to interrupt');
+      return false;
+    }
+    this.handleMessageInterrupt({
+      object: ETranscriptionObjectType.MSG_INTERRUPTED,
+      message_id: `local-interrupt-${this._clock.now()}`,
+      data_type: 'message',
+      turn_id: inFlightTurnId,
+      start_ms: this._pts,
+      send_ts: this._clock.now(),
+    });
+    return true;
+  }
+
+  /**
+   * Adds text the user typed (sent to the agent over RTM) as a finished user
+   * turn. The agent's reply arrives as the next turn, so the item takes that
+   * turn_id and stays ahead of the reply. That turn_id is a guess: when the
+   * agent reports a user.transcription with the same text, the item takes the
+   * agent's turn_id and is updated in place.
+   */
+  public addUserTextMessage(text: string, uid: number) {
+    const lastTurnId = this.messageList.reduce(
+      (max, item) => Math.max(max, item.turn_id),
+      0
+    );
+    const turn_id = lastTurnId + 1;
+    const item: IMessageArrayItem<Partial<IUserTranscription>> = {
+      turn_id,
+      uid,
+      _time: this._clock.now(),
+      text,
+      status: EMessageStatus.END,
+      speaker: EMessageSpeaker.USER,
+      metadata: {
+        object: ETranscriptionObjectType.USER_TRANSCRIPTION,
+        text,
+        turn_id,
+        stream_id: uid,
+        final: true,
+      },
+    };
+    this._pendingUserTextItems.push(item);
+    this._appendChatHistory(item);
     this._mutateChatHistory();
   }
 
@@ -542,9 +942,10 @@ export class MessageEngine {
     this._messageCache = {};
   }
 
+  // Clears the message list, queue and caches, and stops the engine
   public cleanup() {
     logger.debug(CONSOLE_LOG_PREFIX, 'Cleanup message service');
-    this._isRunning = false;
+    this.stop();
     this._legacyMode = false;
     // (super) cleanup message cache
     this.cleanMessageCache();
@@ -556,6 +957,7 @@ export class MessageEngine {
     this._pts = 0;
     // cleanup messageList
     this.messageList = [];
+    this._pendingUserTextItems = [];
     // cleanup mode
     this._mode = EMessageEngineMode.AUTO;
   }
@@ -604,7 +1006,7 @@ export class MessageEngine {
       if (!this._messageCache[input.message_id]) {
         this._messageCache[input.message_id] = [];
         // set cache timeout, drop it if incomplete after timeout
-        setTimeout(() => {
+        this._clock.setTimeout(() => {
           if (
             this._messageCache[input.message_id] &&
             this._messageCache[input.message_id].length < input.part_sum
@@ -654,7 +1056,11 @@ export class MessageEngine {
       // end
       return;
     } catch (error: unknown) {
-      console.error(CONSOLE_LOG_PREFIX, 'handleChunk error', error);
+      this._emitError(
+        EMessageEngineErrorCode.DECODE_FAILED,
+        'Failed to decode stream message',
+        error
+      );
       return;
     }
   }
@@ -700,6 +1106,15 @@ export class MessageEngine {
       this._queue.push(newQueueItem);
       return;
     }
+    // an interrupted turn is final, late chunks would reset its word status
+    if (targetQueueItem.status === EMessageStatus.INTERRUPTED) {
+      logger.debug(
+        CONSOLE_LOG_PREFIX,
+        'Drop update for interrupted queue item',
+        data
+      );
+      return;
+    }
     // if found, update text, words(sorted with status) and turn_status
     logger.debug(
       CONSOLE_LOG_PREFIX,
@@ -742,45 +1157,66 @@ export class MessageEngine {
       this._mutateChatHistory();
       return;
     }
-    if (queueLength > 2) {
-      console.error(
+    this._queue = this._queue.sort((a, b) => a.turn_id - b.turn_id);
+    // more than two turns means the older ones were superseded before their
+    // audio played (e.g. a lost final chunk), drop them as interrupted
+    while (this._queue.length > 2) {
+      logger.warn(
         CONSOLE_LOG_PREFIX,
-        'Queue length is greater than 2, but it should not happen'
+        'Queue has more than 2 items, drop the oldest',
+        JSON.stringify(this._queue[0])
       );
+      this._dropInterruptedQueueItem();
     }
-    // assume the queueLength is 2
-    if (queueLength > 1) {
-      this._queue = this._queue.sort((a, b) => a.turn_id - b.turn_id);
-      const nextItem = this._queue[this._queue.length - 1];
-      const lastItem = this._queue[this._queue.length - 2];
-      // check if nextItem is started
-      const firstWordOfNextItem = nextItem.words[0];
-      // if firstWordOfNextItem.start_ms > curPTS, work on lastItem
-      if (firstWordOfNextItem.start_ms > curPTS) {
-        this._handleTurnObj(lastItem, curPTS);
-        this._mutateChatHistory();
-        return;
-      }
-      // if firstWordOfNextItem.start_ms <= curPTS, work on nextItem, assume lastItem is interrupted(and drop it)
-      const lastItemCorrespondingChatHistoryItem = this.messageList.find(
-        (item) =>
-          item.turn_id === lastItem.turn_id && item.uid === lastItem.stream_id
-      );
-      if (!lastItemCorrespondingChatHistoryItem) {
-        logger.warn(
-          CONSOLE_LOG_PREFIX,
-          'No corresponding messageList item found',
-          lastItem
-        );
-        return;
-      }
-      lastItemCorrespondingChatHistoryItem.status = EMessageStatus.INTERRUPTED;
-      this._lastPoppedQueueItem = this._queue.shift();
-      // handle nextItem
-      this._handleTurnObj(nextItem, curPTS);
+    // queueLength is 2
+    const nextItem = this._queue[1];
+    const lastItem = this._queue[0];
+    // check if nextItem is started, it may have no words yet
+    const firstWordOfNextItem = nextItem.words[0];
+    // if nextItem has not started, work on lastItem
+    if (!firstWordOfNextItem || firstWordOfNextItem.start_ms > curPTS) {
+      this._handleTurnObj(lastItem, curPTS);
       this._mutateChatHistory();
       return;
     }
+    // if firstWordOfNextItem.start_ms <= curPTS, work on nextItem, assume lastItem is interrupted(and drop it)
+    this._dropInterruptedQueueItem();
+    // handle nextItem
+    this._handleTurnObj(nextItem, curPTS);
+    this._mutateChatHistory();
+  }
+
+  // Pops the oldest queue item and marks its chat history item interrupted
+  private _dropInterruptedQueueItem() {
+    const queueItem = this._queue.shift();
+    this._lastPoppedQueueItem = queueItem;
+    if (!queueItem) {
+      return;
+    }
+    const correspondingChatHistoryItem = this._findAgentChatHistoryItem(
+      queueItem.turn_id
+    );
+    if (!correspondingChatHistoryItem) {
+      logger.warn(
+        CONSOLE_LOG_PREFIX,
+        'No corresponding messageList item found',
+        queueItem
+      );
+      return;
+    }
+    correspondingChatHistoryItem.status = EMessageStatus.INTERRUPTED;
+    // the last spoken word is where the agent was cut off
+    const lastSpokenWord = correspondingChatHistoryItem.words?.at(-1);
+    if (lastSpokenWord) {
+      lastSpokenWord.word_status = EMessageStatus.INTERRUPTED;
+    }
+  }
+
+  private _findAgentChatHistoryItem(turn_id: number) {
+    return this.messageList.find(
+      (item) =>
+        item.turn_id === turn_id && item.speaker === EMessageSpeaker.AGENT
+    );
   }
 
   private _interruptQueue(options: { turn_id: number; start_ms: number }) {
@@ -826,9 +1262,8 @@ export class MessageEngine {
   }
 
   private _handleTurnObj(queueItem: TQueueItem, curPTS: number) {
-    let correspondingChatHistoryItem = this.messageList.find(
-      (item) =>
-        item.turn_id === queueItem.turn_id && item.uid === queueItem.stream_id
+    let correspondingChatHistoryItem = this._findAgentChatHistoryItem(
+      queueItem.turn_id
     );
     logger.debug(
       CONSOLE_LOG_PREFIX,
@@ -848,15 +1283,16 @@ export class MessageEngine {
       correspondingChatHistoryItem = {
         turn_id: queueItem.turn_id,
         uid: queueItem.stream_id,
-        _time: new Date().getTime(),
+        _time: this._clock.now(),
         text: '',
         status: queueItem.status,
+        speaker: EMessageSpeaker.AGENT,
         metadata: queueItem,
       };
       this._appendChatHistory(correspondingChatHistoryItem);
     }
     // update correspondingChatHistoryItem._time for chatHistory auto-scroll
-    correspondingChatHistoryItem._time = new Date().getTime();
+    correspondingChatHistoryItem._time = this._clock.now();
     // update correspondingChatHistoryItem.metadata
     correspondingChatHistoryItem.metadata = queueItem;
     // update correspondingChatHistoryItem.status if queueItem.status is interrupted(from message.interrupt event)
@@ -883,6 +1319,7 @@ export class MessageEngine {
     if (isRestWordsEmpty && isLastWordFinal) {
       // update messageList with queueItem
       correspondingChatHistoryItem.text = queueItem.text;
+      correspondingChatHistoryItem.words = queueItem.words;
       correspondingChatHistoryItem.status = queueItem.status;
       // pop queueItem
       this._lastPoppedQueueItem = this._queue.shift();
@@ -894,6 +1331,7 @@ export class MessageEngine {
       .map((word) => word.word)
       .join('');
     correspondingChatHistoryItem.text = validWordsText;
+    correspondingChatHistoryItem.words = validWords;
     // if validWords last word is interrupted, this turn is ended
     const isLastWordInterrupted =
       validWords[validWords.length - 1]?.word_status ===
@@ -906,12 +1344,48 @@ export class MessageEngine {
     return;
   }
 
+  /**
+   * Finds typed text the agent just echoed back, and moves it to the agent's
+   * turn_id if that differs from the one addUserTextMessage guessed.
+   */
+  private _takePendingUserText(text: string, turn_id: number) {
+    const index = this._pendingUserTextItems.findIndex(
+      (item) => item.text.trim() === text.trim()
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const [item] = this._pendingUserTextItems.splice(index, 1);
+    if (item.turn_id !== turn_id) {
+      this.messageList = this.messageList.filter((existing) => existing !== item);
+      item.turn_id = turn_id;
+      this._appendChatHistory(item);
+    }
+    return item;
+  }
+
   private _appendChatHistory(
     item: IMessageArrayItem<Partial<IUserTranscription | IAgentTranscription>>
   ) {
     // if item.turn_id is 0, append to the front of messageList(greeting message)
     if (item.turn_id === 0) {
       this.messageList = [item, ...this.messageList];
+      return;
+    }
+    // user transcription may arrive after the agent's reply to the same turn
+    // (MLLM transcribes input audio asynchronously) or after later turns,
+    // keep the user item ahead of them
+    const laterItemIndex =
+      item.speaker === EMessageSpeaker.USER
+        ? this.messageList.findIndex(
+            (existing) =>
+              existing.turn_id > item.turn_id ||
+              (existing.turn_id === item.turn_id &&
+                existing.speaker === EMessageSpeaker.AGENT)
+          )
+        : -1;
+    if (laterItemIndex !== -1) {
+      this.messageList.splice(laterItemIndex, 0, item);
     } else {
       this.messageList.push(item);
     }
@@ -927,6 +1401,18 @@ export class MessageEngine {
         .map((item) => `${item.text}[status: ${item.status}]`)
         .join('\n')
     );
-    this.onMessageListUpdate?.(this.messageList as IMessageListItem[]);
+    // hand out copies, the engine keeps mutating its own items
+    this.onMessageListUpdate?.(
+      this.messageList.map((item) => ({
+        uid: item.uid,
+        turn_id: item.turn_id,
+        text: item.text,
+        status: item.status,
+        speaker: item.speaker,
+        words: item.words?.map((word) => ({ ...word })),
+        timestamp: item._time,
+        ...getTurnTiming(item),
+      }))
+    );
   }
 }
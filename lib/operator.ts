@@ -0,0 +1,21 @@
+// Operator secret for the operator-only API routes. Typed in once per tab
+// and kept in sessionStorage, never part of the client bundle.
+const STORAGE_KEY = 'operator-secret';
+
+export function getOperatorSecret(): string {
+  return sessionStorage.getItem(STORAGE_KEY) ?? '';
+}
+
+export function setOperatorSecret(secret: string) {
+  if (secret) {
+    sessionStorage.setItem(STORAGE_KEY, secret);
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+// Authorization header for requests to operator-only routes
+export function getOperatorHeaders(): Record<string, string> {
+  const secret = getOperatorSecret();
+  return secret ? { Authorization: `Bearer ${secret}` } : {};
+}
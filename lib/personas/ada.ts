@@ -0,0 +1,31 @@
+import type { Persona } from './types';
+import { AgentToolName } from '@/types/conversation';
+
+export const ada: Persona = {
+  id: 'ada',
+  name: 'Ada',
+  description: 'Developer advocate for the Agora voice AI stack',
+  prompt: {
+    name: 'ada',
+    allowed_versions: [1, 2],
+  },
+  greeting_message: `Hi there! I'm Ada, your virtual assistant from Agora. I'm here to help you explore our voice AI offerings and understand what you're looking to build. What kind of project do you have in mind?`,
+  failure_message: 'Please wait a moment.',
+  asr: {
+    language_hints: ['es', 'en'],
+  },
+  llm: {
+    max_history: 10,
+    max_tokens: 1024,
+    temperature: 0.7,
+    top_p: 0.95,
+  },
+  tools: [AgentToolName.SaveLead, AgentToolName.BookDemo],
+  vad: {
+    silence_duration_ms: 480,
+    speech_duration_ms: 15000,
+    threshold: 0.5,
+    interrupt_duration_ms: 160,
+    prefix_padding_ms: 300,
+  },
+};
@@ -0,0 +1,67 @@
+import type { Persona } from './types';
+import type { PersonaSummary } from '@/types/conversation';
+import { ada } from './ada';
+import { support } from './support';
+import { salesEngineer } from './sales-engineer';
+import { tutor } from './tutor';
+
+export type { Persona } from './types';
+
+const PERSONAS: Persona[] = [ada, support, salesEngineer, tutor];
+
+export class UnknownPersonaError extends Error {
+  constructor(id: string) {
+    super(`Unknown persona: ${id}`);
+    this.name = 'UnknownPersonaError';
+  }
+}
+
+/**
+ * Returns the personas that can be selected in this deployment.
+ * NEXT_ENABLED_PERSONAS (comma-separated ids) limits the list,
+ * otherwise every persona is available.
+ */
+export function listPersonas(): Persona[] {
+  const enabled = process.env.NEXT_ENABLED_PERSONAS?.split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (!enabled?.length) {
+    return PERSONAS;
+  }
+  return PERSONAS.filter((persona) => enabled.includes(persona.id));
+}
+
+/**
+ * NEXT_DEFAULT_PERSONA when that persona is enabled, otherwise the first
+ * enabled persona.
+ */
+export function getDefaultPersonaId(): string {
+  const personas = listPersonas();
+  const configured = process.env.NEXT_DEFAULT_PERSONA;
+  if (configured && personas.some((persona) => persona.id === configured)) {
+    return configured;
+  }
+  return personas[0]?.id || ada.id;
+}
+
+/**
+ * Looks up an enabled persona by id, falling back to the default persona
+ * when no id is given.
+ */
+export function getPersona(id?: string): Persona {
+  const personaId = id || getDefaultPersonaId();
+  const persona = listPersonas().find((p) => p.id === personaId);
+  if (!persona) {
+    throw new UnknownPersonaError(personaId);
+  }
+  return persona;
+}
+
+// Public view of a persona, safe to send to the browser
+export function toPersonaSummary(persona: Persona): PersonaSummary {
+  return {
+    id: persona.id,
+    name: persona.name,
+    description: persona.description,
+  };
+}
@@ -0,0 +1,33 @@
+import type { Persona } from './types';
+import { AgentToolName, TTSVendor } from '@/types/conversation';
+
+export const salesEngineer: Persona = {
+  id: 'sales-engineer',
+  name: 'Max',
+  description: 'Sales engineer that scopes projects and books follow-up demos',
+  prompt: {
+    name: 'sales-engineer',
+  },
+  greeting_message: `Hey, I'm Max, a solutions engineer at Agora. What are you building, and how soon do you need it live?`,
+  failure_message: 'One moment please.',
+  tts_voices: {
+    [TTSVendor.Microsoft]: 'en-US-AndrewMultilingualNeural',
+  },
+  asr: {
+    language_hints: ['en'],
+  },
+  llm: {
+    max_history: 16,
+    max_tokens: 768,
+    temperature: 0.6,
+    top_p: 0.95,
+  },
+  tools: [AgentToolName.SaveLead, AgentToolName.BookDemo],
+  vad: {
+    silence_duration_ms: 480,
+    speech_duration_ms: 15000,
+    threshold: 0.5,
+    interrupt_duration_ms: 160,
+    prefix_padding_ms: 300,
+  },
+};
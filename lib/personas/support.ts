@@ -0,0 +1,33 @@
+import type { Persona } from './types';
+import { TTSVendor } from '@/types/conversation';
+
+export const support: Persona = {
+  id: 'support',
+  name: 'Sam',
+  description: 'Patient support agent that troubleshoots integration issues',
+  prompt: {
+    name: 'support',
+  },
+  greeting_message: `Hi, I'm Sam from Agora support. Tell me what's going on with your integration and we'll work through it together.`,
+  failure_message: 'Sorry, give me a second to look into that.',
+  tts_voices: {
+    [TTSVendor.Microsoft]: 'en-US-AvaMultilingualNeural',
+  },
+  asr: {
+    language_hints: ['en'],
+  },
+  llm: {
+    max_history: 20,
+    max_tokens: 1024,
+    temperature: 0.3,
+    top_p: 0.9,
+  },
+  vad: {
+    // Give users more time to read out error messages and logs
+    silence_duration_ms: 800,
+    speech_duration_ms: 30000,
+    threshold: 0.5,
+    interrupt_duration_ms: 200,
+    prefix_padding_ms: 300,
+  },
+};
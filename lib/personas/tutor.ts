@@ -0,0 +1,33 @@
+import type { Persona } from './types';
+import { TTSVendor } from '@/types/conversation';
+
+export const tutor: Persona = {
+  id: 'tutor',
+  name: 'Tess',
+  description: 'Friendly tutor that teaches real-time voice concepts step by step',
+  prompt: {
+    name: 'tutor',
+  },
+  greeting_message: `Hi, I'm Tess! I'll be your tutor today. What would you like to learn about real-time voice and video?`,
+  failure_message: 'Hmm, let me think about that for a moment.',
+  tts_voices: {
+    [TTSVendor.Microsoft]: 'en-US-EmmaMultilingualNeural',
+  },
+  asr: {
+    language_hints: ['en'],
+  },
+  llm: {
+    max_history: 20,
+    max_tokens: 1024,
+    temperature: 0.5,
+    top_p: 0.95,
+  },
+  vad: {
+    // Learners pause to think, so wait longer before ending their turn
+    silence_duration_ms: 1000,
+    speech_duration_ms: 20000,
+    threshold: 0.5,
+    interrupt_duration_ms: 240,
+    prefix_padding_ms: 300,
+  },
+};
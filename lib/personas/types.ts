@@ -0,0 +1,46 @@
+import type {
+  AgentToolName,
+  ASRVendor,
+  TTSVendor,
+  VADConfig,
+} from '@/types/conversation';
+
+/**
+ * A persona bundles everything that defines how an agent behaves:
+ * which prompt it uses, what it says first, how it sounds and how it listens.
+ * Secrets (API keys, endpoints) are never part of a persona; they always come
+ * from the server environment.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  prompt: {
+    // Prompt name in the prompts/ directory, e.g. 'ada' for prompts/ada_v2.md
+    name: string;
+    // Defaults to the latest version when omitted
+    version?: number;
+    // Versions a client may request with prompt_version
+    allowed_versions?: number[];
+  };
+  greeting_message: string;
+  failure_message: string;
+  // Voice to use per TTS vendor, overrides the voice configured in env
+  tts_voices?: Partial<Record<TTSVendor, string>>;
+  asr: {
+    // Overrides NEXT_ASR_VENDOR, e.g. for personas that need a specific recognizer
+    vendor?: ASRVendor;
+    // Overrides NEXT_ASR_LANGUAGE
+    language?: string;
+    language_hints?: string[];
+  };
+  llm: {
+    max_history: number;
+    max_tokens: number;
+    temperature?: number;
+    top_p?: number;
+  };
+  // Offered to the LLM when NEXT_ENABLE_AGENT_TOOLS is on (cascade mode only)
+  tools?: AgentToolName[];
+  vad: VADConfig;
+}
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+
+const PROMPTS_DIR = path.join(process.cwd(), 'prompts');
+// Prompt files are named {name}_v{version}.md, e.g. ada_v2.md
+const PROMPT_FILE_PATTERN = /^([a-z0-9-]+)_v(\d+)\.md$/;
+
+export interface PromptDefinition {
+  name: string;
+  version: number;
+  content: string;
+  fileName: string;
+}
+
+export class PromptNotAllowedError extends Error {
+  constructor(name: string, version: number) {
+    super(`Prompt version not allowed: ${name} v${version}`);
+    this.name = 'PromptNotAllowedError';
+  }
+}
+
+// Thrown when a prompt or version has no file in prompts/
+export class UnknownPromptError extends Error {
+  constructor(name: string, version?: number) {
+    super(
+      version === undefined
+        ? `Unknown prompt: ${name}`
+        : `Unknown prompt version: ${name} v${version}`
+    );
+    this.name = 'UnknownPromptError';
+  }
+}
+
+let registry: Map<string, PromptDefinition[]> | null = null;
+
+/**
+ * Reads every prompt file in the prompts/ directory and validates it.
+ * Throws if a file does not follow the naming convention, is empty,
+ * or if no prompts are found at all.
+ */
+function loadPrompts(): Map<string, PromptDefinition[]> {
+  if (!fs.existsSync(PROMPTS_DIR)) {
+    throw new Error(`Prompts directory not found: ${PROMPTS_DIR}`);
+  }
+
+  const prompts = new Map<string, PromptDefinition[]>();
+  const fileNames = fs.readdirSync(PROMPTS_DIR).filter((f) => !f.startsWith('.'));
+
+  for (const fileName of fileNames) {
+    const match = fileName.match(PROMPT_FILE_PATTERN);
+    if (!match) {
+      throw new Error(
+        `Invalid prompt file name "${fileName}". Expected {name}_v{version}.md`
+      );
+    }
+
+    const content = fs.readFileSync(path.join(PROMPTS_DIR, fileName), 'utf8');
+    if (content.trim().length === 0) {
+      throw new Error(`Prompt file "${fileName}" is empty`);
+    }
+
+    const [, name, version] = match;
+    const versions = prompts.get(name) || [];
+    versions.push({ name, version: parseInt(version, 10), content, fileName });
+    prompts.set(name, versions);
+  }
+
+  if (prompts.size === 0) {
+    throw new Error(`No prompt files found in ${PROMPTS_DIR}`);
+  }
+
+  // Keep versions sorted so the last entry is always the latest
+  prompts.forEach((versions) => versions.sort((a, b) => a.version - b.version));
+
+  return prompts;
+}
+
+/**
+ * Returns the prompt registry, loading it from disk on first use.
+ * Called from instrumentation.ts so invalid prompts fail the server at startup.
+ */
+export function getPromptRegistry(): Map<string, PromptDefinition[]> {
+  if (!registry) {
+    registry = loadPrompts();
+  }
+  return registry;
+}
+
+/**
+ * Looks up a prompt by name and version. When version is omitted the latest
+ * version of that prompt is returned.
+ */
+export function getPrompt(name: string, version?: number): PromptDefinition {
+  const versions = getPromptRegistry().get(name);
+  if (!versions) {
+    throw new UnknownPromptError(name);
+  }
+
+  if (version === undefined) {
+    return versions[versions.length - 1];
+  }
+
+  const prompt = versions.find((p) => p.version === version);
+  if (!prompt) {
+    throw new UnknownPromptError(name, version);
+  }
+  return prompt;
+}
+
+export interface PromptSelection {
+  name: string;
+  version?: number;
+  allowed_versions?: number[];
+}
+
+/**
+ * Resolves which prompt to use for a conversation.
+ *
+ * The selection (usually a persona's prompt) names the prompt and its default
+ * version. Clients may request another version of that prompt, but only
+ * versions listed in allowed_versions are accepted. When no allowlist is
+ * given, only the default version is allowed.
+ */
+export function resolvePrompt(
+  selection: PromptSelection,
+  requestedVersion?: number
+): PromptDefinition {
+  const defaultPrompt = getPrompt(selection.name, selection.version);
+
+  if (requestedVersion === undefined) {
+    return defaultPrompt;
+  }
+
+  const allowedVersions = selection.allowed_versions || [
+    defaultPrompt.version,
+  ];
+
+  if (!allowedVersions.includes(requestedVersion)) {
+    throw new PromptNotAllowedError(selection.name, requestedVersion);
+  }
+
+  return getPrompt(selection.name, requestedVersion);
+}
@@ -0,0 +1,107 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileSessionStore } from '@/lib/sessions/file-store';
+import { MemorySessionStore } from '@/lib/sessions/memory-store';
+import { SessionNotFoundError, type SessionStore } from '@/lib/sessions/store';
+import type { SessionRecord, TranscriptTurn } from '@/types/conversation';
+
+function session(agent_id: string, started_at: string): SessionRecord {
+  return {
+    agent_id,
+    channel: 'demo',
+    persona: { id: 'ada', name: 'Ada', description: 'Developer advocate' },
+    config: {
+      mode: 'cascade',
+      prompt: { name: 'ada', version: 2 },
+      modalities: { input: ['text'], output: ['text', 'audio'] },
+      rtm_enabled: false,
+    },
+    started_at,
+    stopped_at: null,
+    turns: [],
+  };
+}
+
+const turns: TranscriptTurn[] = [
+  {
+    turn_id: 0,
+    speaker: 'agent',
+    uid: 1000,
+    status: 'end',
+    text: 'Hi there!',
+    timestamp: '2026-01-02T03:04:05.000Z',
+    start_ms: 0,
+    duration_ms: 900,
+  },
+];
+
+describe.each([
+  ['FileSessionStore', 'file'],
+  ['MemorySessionStore', 'memory'],
+])('%s', (_, driver) => {
+  let dir: string;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    store =
+      driver === 'file' ? new FileSessionStore(dir) : new MemorySessionStore();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns a stored session', async () => {
+    await store.create(session('agent1', '2026-01-02T03:00:00.000Z'));
+
+    expect(await store.get('agent1')).toEqual(
+      session('agent1', '2026-01-02T03:00:00.000Z')
+    );
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('lists sessions newest first', async () => {
+    await store.create(session('older', '2026-01-01T00:00:00.000Z'));
+    await store.create(session('newer', '2026-01-02T00:00:00.000Z'));
+
+    expect((await store.list()).map((item) => item.agent_id)).toEqual([
+      'newer',
+      'older',
+    ]);
+  });
+
+  it('saves the final turns', async () => {
+    await store.create(session('agent1', '2026-01-02T03:00:00.000Z'));
+    await store.saveTurns('agent1', turns, '2026-01-02T03:10:00.000Z');
+
+    expect(await store.get('agent1')).toMatchObject({
+      stopped_at: '2026-01-02T03:10:00.000Z',
+      turns,
+    });
+    expect((await store.list())[0].turn_count).toBe(1);
+  });
+
+  it('rejects turns for unknown sessions', async () => {
+    await expect(
+      store.saveTurns('missing', turns, '2026-01-02T03:10:00.000Z')
+    ).rejects.toBeInstanceOf(SessionNotFoundError);
+  });
+});
+
+describe('FileSessionStore', () => {
+  it('never reads outside its directory', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    const store = new FileSessionStore(path.join(dir, 'sessions'));
+    await store.create(session('agent1', '2026-01-02T03:00:00.000Z'));
+
+    expect(await store.get('../sessions/agent1')).toBeNull();
+    await expect(
+      store.create(session('../escaped', '2026-01-02T03:00:00.000Z'))
+    ).rejects.toThrow('Invalid session id');
+    expect(await readdir(dir)).toEqual(['sessions']);
+    await rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,91 @@
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SessionRecord, TranscriptTurn } from '@/types/conversation';
+import {
+  SessionNotFoundError,
+  type SessionStore,
+  sortNewestFirst,
+  toSessionSummary,
+} from './store';
+
+// Agent ids are alphanumeric, anything else could escape the directory
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Stores each session as a JSON file in one directory, for local use and
+ * single instance deployments. Files are replaced atomically, so a crash
+ * never leaves half a session behind.
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly dir: string) {}
+
+  private getPath(id: string): string | null {
+    return SESSION_ID_PATTERN.test(id)
+      ? path.join(this.dir, `${id}.json`)
+      : null;
+  }
+
+  private async write(session: SessionRecord) {
+    const filePath = this.getPath(session.agent_id);
+    if (!filePath) {
+      throw new Error(`Invalid session id: ${session.agent_id}`);
+    }
+    await mkdir(this.dir, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(session, null, 2));
+    await rename(tempPath, filePath);
+  }
+
+  async create(session: SessionRecord) {
+    await this.write(session);
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const filePath = this.getPath(id);
+    if (!filePath) {
+      return null;
+    }
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list() {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.dir);
+    } catch (error) {
+      // Nothing stored yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions = await Promise.all(
+      fileNames
+        .filter((fileName) => fileName.endsWith('.json'))
+        .map((fileName) => this.get(path.basename(fileName, '.json')))
+    );
+    return sortNewestFirst(
+      sessions
+        .filter((session): session is SessionRecord => session !== null)
+        .map(toSessionSummary)
+    );
+  }
+
+  async saveTurns(id: string, turns: TranscriptTurn[], stoppedAt: string) {
+    const session = await this.get(id);
+    if (!session) {
+      throw new SessionNotFoundError(id);
+    }
+    const updated = { ...session, turns, stopped_at: stoppedAt };
+    await this.write(updated);
+    return updated;
+  }
+}
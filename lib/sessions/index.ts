@@ -0,0 +1,34 @@
+import path from 'path';
+import { getSessionStoreConfig } from '@/lib/config';
+import { FileSessionStore } from './file-store';
+import { MemorySessionStore } from './memory-store';
+import type { SessionStore } from './store';
+
+export { SessionNotFoundError, type SessionStore } from './store';
+export { FileSessionStore } from './file-store';
+export { MemorySessionStore } from './memory-store';
+export { getSessionWriteToken, hasSessionWriteToken } from './write-token';
+
+let store: SessionStore | null | undefined;
+
+/**
+ * Returns the store picked with NEXT_SESSION_STORE, or null when sessions
+ * are not stored (the default). Created once per server process.
+ */
+export function getSessionStore(): SessionStore | null {
+  if (store === undefined) {
+    const { driver, dir } = getSessionStoreConfig();
+    switch (driver) {
+      case 'file':
+        store = new FileSessionStore(path.resolve(dir));
+        break;
+      case 'memory':
+        store = new MemorySessionStore();
+        break;
+      case 'none':
+        store = null;
+        break;
+    }
+  }
+  return store;
+}
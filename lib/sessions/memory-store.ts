@@ -0,0 +1,35 @@
+import type { SessionRecord, TranscriptTurn } from '@/types/conversation';
+import {
+  SessionNotFoundError,
+  type SessionStore,
+  sortNewestFirst,
+  toSessionSummary,
+} from './store';
+
+// Keeps sessions in process memory, they are gone when the server restarts
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionRecord>();
+
+  async create(session: SessionRecord) {
+    this.sessions.set(session.agent_id, structuredClone(session));
+  }
+
+  async get(id: string) {
+    const session = this.sessions.get(id);
+    return session ? structuredClone(session) : null;
+  }
+
+  async list() {
+    return sortNewestFirst([...this.sessions.values()].map(toSessionSummary));
+  }
+
+  async saveTurns(id: string, turns: TranscriptTurn[], stoppedAt: string) {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new SessionNotFoundError(id);
+    }
+    session.turns = structuredClone(turns);
+    session.stopped_at = stoppedAt;
+    return structuredClone(session);
+  }
+}
@@ -0,0 +1,47 @@
+import type {
+  SessionRecord,
+  SessionSummary,
+  TranscriptTurn,
+} from '@/types/conversation';
+
+export class SessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Unknown session: ${id}`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * Keeps a record of each conversation, keyed by agent_id. Adapters only need
+ * to store and return whole records, the routes do the validation.
+ */
+export interface SessionStore {
+  create(session: SessionRecord): Promise<void>;
+  // Resolves to null for unknown ids
+  get(id: string): Promise<SessionRecord | null>;
+  // Newest first
+  list(): Promise<SessionSummary[]>;
+  // Replaces the turns and marks the session stopped, rejects with
+  // SessionNotFoundError for unknown ids
+  saveTurns(
+    id: string,
+    turns: TranscriptTurn[],
+    stoppedAt: string
+  ): Promise<SessionRecord>;
+}
+
+export function toSessionSummary(session: SessionRecord): SessionSummary {
+  return {
+    agent_id: session.agent_id,
+    channel: session.channel,
+    persona: session.persona,
+    mode: session.config.mode,
+    started_at: session.started_at,
+    stopped_at: session.stopped_at,
+    turn_count: session.turns.length,
+  };
+}
+
+export function sortNewestFirst(sessions: SessionSummary[]): SessionSummary[] {
+  return sessions.sort((a, b) => b.started_at.localeCompare(a.started_at));
+}
@@ -0,0 +1,18 @@
+import { createHmac } from 'crypto';
+import { hasBearerToken } from '@/lib/auth';
+import { getAgoraConfig } from '@/lib/config';
+
+/**
+ * Token invite-agent hands to the client that started a session, which it
+ * sends back to save the turns. Derived from the agent id with the app
+ * certificate, so nothing has to be stored.
+ */
+export function getSessionWriteToken(agentId: string): string {
+  return createHmac('sha256', getAgoraConfig().appCertificate)
+    .update(`session-write:${agentId}`)
+    .digest('base64url');
+}
+
+export function hasSessionWriteToken(request: Request, agentId: string) {
+  return hasBearerToken(request, getSessionWriteToken(agentId));
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  executeToolCall,
+  getTool,
+  getToolDefinitions,
+  ToolArgumentsError,
+  UnknownToolError,
+} from '@/lib/tools';
+import { AgentToolName, type ToolCall } from '@/types/conversation';
+import { FakeLeadSink } from '@/test/fake-lead-sink';
+
+function toolCall(name: string, args: unknown): ToolCall {
+  return {
+    id: 'call_1',
+    type: 'function',
+    function: {
+      name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args),
+    },
+  };
+}
+
+function run(name: string, args: unknown) {
+  const leadSink = new FakeLeadSink();
+  const result = executeToolCall(toolCall(name, args), {
+    agentId: 'agent1',
+    channel: null,
+    leadSink,
+  });
+  return { leadSink, result };
+}
+
+describe('tool definitions', () => {
+  it.each(Object.values(AgentToolName))(
+    '%s describes the fields its schema accepts',
+    (name) => {
+      const tool = getTool(name);
+      const shape = (tool.schema as z.AnyZodObject).shape;
+      const parameters = tool.definition.function.parameters as {
+        properties: Record<string, unknown>;
+        required: string[];
+      };
+
+      expect(tool.definition.function.name).toBe(name);
+      expect(Object.keys(parameters.properties).sort()).toEqual(
+        Object.keys(shape).sort()
+      );
+      expect(parameters.required.sort()).toEqual(
+        Object.keys(shape)
+          .filter((key) => !shape[key].isOptional())
+          .sort()
+      );
+    }
+  );
+
+  it('returns the definitions in the order asked for', () => {
+    expect(
+      getToolDefinitions([AgentToolName.BookDemo, AgentToolName.SaveLead]).map(
+        (definition) => definition.function.name
+      )
+    ).toEqual(['book_demo', 'save_lead']);
+  });
+});
+
+describe('executeToolCall', () => {
+  it('saves a lead through the sink', async () => {
+    const { leadSink, result } = run(AgentToolName.SaveLead, {
+      name: ' Grace Hopper ',
+      email: 'grace@example.com',
+      company: 'Navy',
+      expected_scale: '10k concurrent users',
+    });
+
+    expect(await result).toEqual({
+      status: 'saved',
+      lead_id: leadSink.leads[0].id,
+    });
+    expect(leadSink.leads[0]).toMatchObject({
+      type: 'lead',
+      agent_id: 'agent1',
+      data: {
+        name: 'Grace Hopper',
+        email: 'grace@example.com',
+        company: 'Navy',
+        expected_scale: '10k concurrent users',
+      },
+    });
+  });
+
+  it('records demo requests', async () => {
+    const { leadSink, result } = run(AgentToolName.BookDemo, {
+      name: 'Grace Hopper',
+      email: 'grace@example.com',
+      recap: 'Voice agent for a support line, live in Q3',
+    });
+
+    expect(await result).toMatchObject({ status: 'requested' });
+    expect(leadSink.leads[0].type).toBe('demo_request');
+  });
+
+  it('rejects arguments that are not JSON', async () => {
+    const { leadSink, result } = run(AgentToolName.SaveLead, '{"name": "Gr');
+
+    await expect(result).rejects.toBeInstanceOf(ToolArgumentsError);
+    expect(leadSink.leads).toEqual([]);
+  });
+
+  it('lists every invalid argument', async () => {
+    const { result } = run(AgentToolName.SaveLead, { email: 'not an email' });
+
+    await expect(result).rejects.toMatchObject({
+      issues: [
+        { path: 'name', message: 'Required' },
+        { path: 'email', message: 'Invalid email' },
+      ],
+    });
+  });
+
+  it('rejects unknown tools', async () => {
+    await expect(run('toString', {}).result).rejects.toBeInstanceOf(
+      UnknownToolError
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import {
+  AgentToolName,
+  LLMToolDefinition,
+  ToolCall,
+  ValidationIssue,
+} from '@/types/conversation';
+import { bookDemoTool, saveLeadTool } from './lead-tools';
+import type { AgentTool, ToolContext } from './types';
+
+export type { AgentTool, ToolContext } from './types';
+
+const TOOLS: Record<AgentToolName, AgentTool> = {
+  [AgentToolName.SaveLead]: saveLeadTool,
+  [AgentToolName.BookDemo]: bookDemoTool,
+};
+
+export class UnknownToolError extends Error {
+  constructor(name: string) {
+    super(`Unknown tool: ${name}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+// Thrown when the LLM calls a tool with arguments that don't match its schema
+export class ToolArgumentsError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(name: string, issues: ValidationIssue[]) {
+    super(`Invalid arguments for ${name}`);
+    this.name = 'ToolArgumentsError';
+    this.issues = issues;
+  }
+}
+
+export function getTool(name: string): AgentTool {
+  if (!Object.hasOwn(TOOLS, name)) {
+    throw new UnknownToolError(name);
+  }
+  return TOOLS[name as AgentToolName];
+}
+
+// Definitions for llm.params.tools
+export function getToolDefinitions(names: AgentToolName[]): LLMToolDefinition[] {
+  return names.map((name) => TOOLS[name].definition);
+}
+
+function parseArguments(toolCall: ToolCall, schema: z.ZodTypeAny) {
+  const { name, arguments: json } = toolCall.function;
+  let args: unknown;
+  try {
+    // Some models send an empty string for a call without arguments
+    args = json.trim() === '' ? {} : JSON.parse(json);
+  } catch {
+    throw new ToolArgumentsError(name, [
+      { path: '', message: 'Arguments must be valid JSON' },
+    ]);
+  }
+
+  const result = schema.safeParse(args);
+  if (!result.success) {
+    throw new ToolArgumentsError(
+      name,
+      result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Validates and runs a tool call from the LLM. Rejects with UnknownToolError
+ * or ToolArgumentsError when the call can't be run as is.
+ */
+export async function executeToolCall(
+  toolCall: ToolCall,
+  context: ToolContext
+): Promise<unknown> {
+  const tool = getTool(toolCall.function.name);
+  return tool.execute(parseArguments(toolCall, tool.schema), context);
+}
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { AgentToolName } from '@/types/conversation';
+import type { AgentTool } from './types';
+
+const SaveLeadArgumentsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email(),
+  company: z.string().trim().max(200).optional(),
+  role: z.string().trim().max(200).optional(),
+  region: z.string().trim().max(100).optional(),
+  timeline: z.string().trim().max(200).optional(),
+  expected_scale: z.string().trim().max(200).optional(),
+  use_case: z.string().trim().max(2000).optional(),
+});
+
+const BookDemoArgumentsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email(),
+  company: z.string().trim().max(200).optional(),
+  preferred_time: z.string().trim().max(200).optional(),
+  timezone: z.string().trim().max(100).optional(),
+  recap: z.string().trim().min(1).max(2000),
+});
+
+// JSON Schema properties are kept next to the zod schemas they mirror,
+// the tests check that both list the same fields
+const text = (description: string) => ({ type: 'string', description });
+
+export const saveLeadTool: AgentTool<typeof SaveLeadArgumentsSchema> = {
+  definition: {
+    type: 'function',
+    function: {
+      name: AgentToolName.SaveLead,
+      description:
+        'Save the contact details of a prospect once they have shared at least their name and email. Call it again when they add more details.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: text('Full name'),
+          email: text('Email address'),
+          company: text('Company name'),
+          role: text('Job title or role'),
+          region: text('Country or region they operate in'),
+          timeline: text('When they want to go live'),
+          expected_scale: text(
+            'Expected usage, e.g. concurrent users or minutes per month'
+          ),
+          use_case: text('What they are building, in one or two sentences'),
+        },
+        required: ['name', 'email'],
+      },
+    },
+  },
+  schema: SaveLeadArgumentsSchema,
+  async execute(args, { agentId, channel, leadSink }) {
+    const id = randomUUID();
+    await leadSink.save({
+      id,
+      type: 'lead',
+      agent_id: agentId,
+      channel,
+      received_at: new Date().toISOString(),
+      data: args,
+    });
+    return { status: 'saved', lead_id: id };
+  },
+};
+
+export const bookDemoTool: AgentTool<typeof BookDemoArgumentsSchema> = {
+  definition: {
+    type: 'function',
+    function: {
+      name: AgentToolName.BookDemo,
+      description:
+        'Request a live demo or solutioning call with an Agora specialist after the prospect agreed to one. A specialist follows up by email to confirm the time.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: text('Full name'),
+          email: text('Email address the invite goes to'),
+          company: text('Company name'),
+          preferred_time: text('When they would like the call, as they said it'),
+          timezone: text('Their timezone, e.g. America/New_York'),
+          recap: text(
+            'Short recap of their project and what they want from the call'
+          ),
+        },
+        required: ['name', 'email', 'recap'],
+      },
+    },
+  },
+  schema: BookDemoArgumentsSchema,
+  async execute(args, { agentId, channel, leadSink }) {
+    const id = randomUUID();
+    await leadSink.save({
+      id,
+      type: 'demo_request',
+      agent_id: agentId,
+      channel,
+      received_at: new Date().toISOString(),
+      data: args,
+    });
+    return {
+      status: 'requested',
+      request_id: id,
+      message: 'A specialist will email to confirm the time.',
+    };
+  },
+};
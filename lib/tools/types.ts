@@ -0,0 +1,21 @@
+import type { z } from 'zod';
+import type { LeadSink } from '@/lib/leads/sink';
+import type { LLMToolDefinition } from '@/types/conversation';
+
+export interface ToolContext {
+  // Conversation the call came from, if known
+  agentId: string | null;
+  channel: string | null;
+  leadSink: LeadSink;
+}
+
+/**
+ * A function the LLM can call. The definition is sent to the LLM, the schema
+ * validates the arguments it comes back with before execute runs.
+ */
+export interface AgentTool<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  definition: LLMToolDefinition;
+  schema: T;
+  // The result is sent back to the LLM as JSON
+  execute(args: z.output<T>, context: ToolContext): Promise<unknown>;
+}
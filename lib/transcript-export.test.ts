@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMessageSpeaker,
+  EMessageStatus,
+  type IMessageListItem,
+} from '@/lib/message';
+import {
+  ETranscriptExportFormat,
+  formatTranscript,
+  fromTranscriptTurns,
+  toJSON,
+  toMarkdown,
+  toSRT,
+  toTranscriptTurns,
+  toWebVTT,
+} from '@/lib/transcript-export';
+import { AGENT_UID, USER_UID } from '@/test/fixtures/message-streams';
+
+const EXPORTED_AT = new Date('2026-01-02T03:04:05.000Z');
+const options = { agentName: 'Ada', exportedAt: EXPORTED_AT };
+
+function turn(
+  turn_id: number,
+  speaker: EMessageSpeaker,
+  text: string,
+  overrides: Partial<IMessageListItem> = {}
+): IMessageListItem {
+  return {
+    uid: speaker === EMessageSpeaker.AGENT ? AGENT_UID : USER_UID,
+    turn_id,
+    text,
+    status: EMessageStatus.END,
+    speaker,
+    timestamp: EXPORTED_AT.getTime(),
+    ...overrides,
+  };
+}
+
+const conversation = [
+  turn(0, EMessageSpeaker.AGENT, 'Hi, what are you building?', {
+    start_ms: 5000,
+    duration_ms: 2500,
+  }),
+  turn(1, EMessageSpeaker.USER, 'A voice bot', {
+    start_ms: 8000,
+    duration_ms: 1200,
+    timestamp: EXPORTED_AT.getTime() + 3000,
+  }),
+  turn(1, EMessageSpeaker.AGENT, 'Use **RTC** for audio.\n\nThen add RTM.', {
+    start_ms: 9500,
+    timestamp: EXPORTED_AT.getTime() + 4500,
+    duration_ms: 3723004,
+    status: EMessageStatus.INTERRUPTED,
+  }),
+  turn(2, EMessageSpeaker.USER, 'Typed question'),
+];
+
+describe('toMarkdown', () => {
+  it('lists every turn with its speaker', () => {
+    expect(toMarkdown(conversation, options)).toBe(
+      [
+        '# Conversation with Ada',
+        '_Exported 2026-01-02T03:04:05.000Z_',
+        '**Ada:**\n\nHi, what are you building?',
+        '**You:**\n\nA voice bot',
+        '**Ada:** _(interrupted)_\n\nUse **RTC** for audio.\n\nThen add RTM.',
+        '**You:**\n\nTyped question',
+      ].join('\n\n') + '\n'
+    );
+  });
+});
+
+describe('toJSON', () => {
+  it('exports turns with status and timing', () => {
+    const transcript = JSON.parse(toJSON(conversation, options));
+
+    expect(transcript).toMatchObject({
+      version: 1,
+      exported_at: '2026-01-02T03:04:05.000Z',
+      agent_name: 'Ada',
+    });
+    expect(transcript.turns[2]).toEqual({
+      turn_id: 1,
+      speaker: 'agent',
+      uid: AGENT_UID,
+      status: 'interrupted',
+      text: 'Use **RTC** for audio.\n\nThen add RTM.',
+      timestamp: '2026-01-02T03:04:09.500Z',
+      start_ms: 9500,
+      duration_ms: 3723004,
+    });
+    expect(transcript.turns[3]).toMatchObject({
+      start_ms: null,
+      duration_ms: null,
+    });
+  });
+});
+
+describe('subtitles', () => {
+  it('writes SRT cues from the first spoken turn', () => {
+    expect(toSRT(conversation, options)).toBe(
+      [
+        '1\n00:00:00,000 --> 00:00:02,500\nAda: Hi, what are you building?\n',
+        '2\n00:00:03,000 --> 00:00:04,200\nYou: A voice bot\n',
+        '3\n00:00:04,500 --> 01:02:07,504\nAda: Use **RTC** for audio.\nThen add RTM.\n',
+      ].join('\n')
+    );
+  });
+
+  it('writes WebVTT cues with voice tags', () => {
+    expect(toWebVTT(conversation, options)).toBe(
+      [
+        'WEBVTT\n',
+        '00:00:00.000 --> 00:00:02.500\n<v Ada>Hi, what are you building?\n',
+        '00:00:03.000 --> 00:00:04.200\n<v You>A voice bot\n',
+        '00:00:04.500 --> 01:02:07.504\n<v Ada>Use **RTC** for audio.\nThen add RTM.\n',
+      ].join('\n')
+    );
+  });
+
+  it('orders cues by when they were spoken', () => {
+    const [first, second] = conversation;
+    const cues = toSRT([second, first], options);
+
+    expect(cues.indexOf('Ada:')).toBeLessThan(cues.indexOf('You:'));
+  });
+
+  it('lines up user and agent audio clocks on the turn timestamps', () => {
+    const at = (ms: number) => EXPORTED_AT.getTime() + ms;
+    const cues = toSRT(
+      [
+        turn(1, EMessageSpeaker.USER, 'Hello', {
+          start_ms: 120_000,
+          duration_ms: 800,
+          timestamp: at(0),
+        }),
+        turn(1, EMessageSpeaker.AGENT, 'Hi there', {
+          start_ms: 300,
+          duration_ms: 1000,
+          timestamp: at(1500),
+        }),
+        turn(2, EMessageSpeaker.USER, 'Bye', {
+          start_ms: 124_000,
+          duration_ms: 500,
+          timestamp: at(4000),
+        }),
+        turn(2, EMessageSpeaker.AGENT, 'Goodbye', {
+          start_ms: 5300,
+          duration_ms: 700,
+          timestamp: at(6500),
+        }),
+      ],
+      options
+    );
+
+    expect(cues).toBe(
+      [
+        '1\n00:00:00,000 --> 00:00:00,800\nYou: Hello\n',
+        '2\n00:00:01,500 --> 00:00:02,500\nAda: Hi there\n',
+        '3\n00:00:04,000 --> 00:00:04,500\nYou: Bye\n',
+        '4\n00:00:06,500 --> 00:00:07,200\nAda: Goodbye\n',
+      ].join('\n')
+    );
+  });
+
+  it('leaves out turns without timing', () => {
+    expect(toSRT([conversation[3]], options)).toBe('');
+    expect(toWebVTT([conversation[3]], options)).toBe('WEBVTT\n');
+  });
+});
+
+describe('formatTranscript', () => {
+  it('picks the exporter for the format', () => {
+    expect(
+      formatTranscript(ETranscriptExportFormat.WEBVTT, conversation, options)
+    ).toBe(toWebVTT(conversation, options));
+  });
+});
+
+describe('transcript turns', () => {
+  it('round trips message list items', () => {
+    expect(fromTranscriptTurns(toTranscriptTurns(conversation))).toEqual(
+      conversation
+    );
+  });
+});
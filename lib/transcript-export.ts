@@ -0,0 +1,243 @@
+import {
+  EMessageSpeaker,
+  EMessageStatus,
+  type IMessageListItem,
+} from '@/lib/message';
+import { downloadFile } from '@/lib/utils';
+import type { TranscriptTurn } from '@/types/conversation';
+
+export enum ETranscriptExportFormat {
+  MARKDOWN = 'markdown',
+  JSON = 'json',
+  SRT = 'srt',
+  WEBVTT = 'vtt',
+}
+
+export interface ITranscriptExportOptions {
+  // Shown for the agent's turns, e.g. the persona name
+  agentName?: string;
+  userName?: string;
+  exportedAt?: Date;
+}
+
+export interface ITranscriptExport {
+  version: 1;
+  exported_at: string;
+  agent_name: string;
+  turns: TranscriptTurn[];
+}
+
+const FILE_TYPES: Record<
+  ETranscriptExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  [ETranscriptExportFormat.MARKDOWN]: {
+    extension: 'md',
+    mimeType: 'text/markdown',
+  },
+  [ETranscriptExportFormat.JSON]: {
+    extension: 'json',
+    mimeType: 'application/json',
+  },
+  [ETranscriptExportFormat.SRT]: {
+    extension: 'srt',
+    mimeType: 'application/x-subrip',
+  },
+  [ETranscriptExportFormat.WEBVTT]: { extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+const STATUS_NAMES: Record<EMessageStatus, TranscriptTurn['status']> = {
+  [EMessageStatus.IN_PROGRESS]: 'in_progress',
+  [EMessageStatus.END]: 'end',
+  [EMessageStatus.INTERRUPTED]: 'interrupted',
+};
+
+const STATUSES: Record<TranscriptTurn['status'], EMessageStatus> = {
+  in_progress: EMessageStatus.IN_PROGRESS,
+  end: EMessageStatus.END,
+  interrupted: EMessageStatus.INTERRUPTED,
+};
+
+// Plain JSON form of the turns, used by the JSON export and stored sessions
+export function toTranscriptTurns(
+  messages: IMessageListItem[]
+): TranscriptTurn[] {
+  return messages.map((message) => ({
+    turn_id: message.turn_id,
+    speaker: message.speaker,
+    uid: message.uid,
+    status: STATUS_NAMES[message.status],
+    text: message.text,
+    timestamp: new Date(message.timestamp).toISOString(),
+    start_ms: message.start_ms ?? null,
+    duration_ms: message.duration_ms ?? null,
+  }));
+}
+
+// Turns back into message list items, e.g. to export a stored session
+export function fromTranscriptTurns(
+  turns: TranscriptTurn[]
+): IMessageListItem[] {
+  return turns.map((turn) => ({
+    uid: turn.uid,
+    turn_id: turn.turn_id,
+    text: turn.text,
+    status: STATUSES[turn.status],
+    speaker:
+      turn.speaker === 'agent' ? EMessageSpeaker.AGENT : EMessageSpeaker.USER,
+    timestamp: Date.parse(turn.timestamp),
+    start_ms: turn.start_ms ?? undefined,
+    duration_ms: turn.duration_ms ?? undefined,
+  }));
+}
+
+function getSpeakerName(
+  speaker: EMessageSpeaker,
+  { agentName = 'Agent', userName = 'You' }: ITranscriptExportOptions
+): string {
+  return speaker === EMessageSpeaker.AGENT ? agentName : userName;
+}
+
+export function toMarkdown(
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions = {}
+): string {
+  const { agentName = 'Agent', exportedAt = new Date() } = options;
+  const header = [
+    `# Conversation with ${agentName}`,
+    `_Exported ${exportedAt.toISOString()}_`,
+  ];
+  // Agent turns are already Markdown, so they are kept as written
+  const turns = messages.map((message) => {
+    const interrupted =
+      message.status === EMessageStatus.INTERRUPTED ? ' _(interrupted)_' : '';
+    return `**${getSpeakerName(message.speaker, options)}:**${interrupted}\n\n${message.text.trim()}`;
+  });
+  return [...header, ...turns].join('\n\n') + '\n';
+}
+
+export function toJSON(
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions = {}
+): string {
+  const { agentName = 'Agent', exportedAt = new Date() } = options;
+  const transcript: ITranscriptExport = {
+    version: 1,
+    exported_at: exportedAt.toISOString(),
+    agent_name: agentName,
+    turns: toTranscriptTurns(messages),
+  };
+  return JSON.stringify(transcript, null, 2);
+}
+
+interface ISubtitleCue {
+  start_ms: number;
+  end_ms: number;
+  speaker: string;
+  text: string;
+}
+
+/**
+ * Builds subtitle cues from the audio timing of each turn, in the order they
+ * were spoken. Turns without timing, such as typed messages, have nothing to
+ * line up with and are left out.
+ *
+ * User timings come from the ASR and agent timings from the TTS, each on its
+ * own clock. Every speaker's clock is lined up with the turn timestamps at
+ * their first timed turn, then cues are shifted so the first one starts at
+ * zero.
+ */
+function getSubtitleCues(
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions
+): ISubtitleCue[] {
+  const timed = messages.filter(
+    (message) =>
+      message.start_ms !== undefined &&
+      !!message.duration_ms &&
+      message.duration_ms > 0 &&
+      message.text.trim()
+  );
+  const clockOffsets = new Map<EMessageSpeaker, number>();
+  for (const message of timed) {
+    if (!clockOffsets.has(message.speaker)) {
+      clockOffsets.set(message.speaker, message.timestamp - message.start_ms!);
+    }
+  }
+  const spoken = timed
+    .map((message) => ({
+      message,
+      start_ms: message.start_ms! + clockOffsets.get(message.speaker)!,
+    }))
+    .sort((a, b) => a.start_ms - b.start_ms);
+  const offset = spoken[0]?.start_ms ?? 0;
+  return spoken.map(({ message, start_ms }) => ({
+    start_ms: start_ms - offset,
+    end_ms: start_ms + message.duration_ms! - offset,
+    speaker: getSpeakerName(message.speaker, options),
+    // A blank line ends a cue, so paragraphs in the text are collapsed
+    text: message.text.trim().replace(/\n\s*\n/g, '\n'),
+  }));
+}
+
+// HH:MM:SS plus milliseconds, SRT separates them with a comma, WebVTT a dot
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) =>
+    String(Math.floor(value)).padStart(length, '0');
+  return `${pad(ms / 3_600_000)}:${pad((ms / 60_000) % 60)}:${pad((ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSRT(
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions = {}
+): string {
+  return getSubtitleCues(messages, options)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCueTime(cue.start_ms, ',')} --> ${formatCueTime(cue.end_ms, ',')}\n${cue.speaker}: ${cue.text}\n`
+    )
+    .join('\n');
+}
+
+export function toWebVTT(
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions = {}
+): string {
+  const cues = getSubtitleCues(messages, options).map(
+    (cue) =>
+      `${formatCueTime(cue.start_ms, '.')} --> ${formatCueTime(cue.end_ms, '.')}\n<v ${cue.speaker}>${cue.text}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function formatTranscript(
+  format: ETranscriptExportFormat,
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions = {}
+): string {
+  switch (format) {
+    case ETranscriptExportFormat.MARKDOWN:
+      return toMarkdown(messages, options);
+    case ETranscriptExportFormat.JSON:
+      return toJSON(messages, options);
+    case ETranscriptExportFormat.SRT:
+      return toSRT(messages, options);
+    case ETranscriptExportFormat.WEBVTT:
+      return toWebVTT(messages, options);
+  }
+}
+
+// Saves the transcript in the given format from the browser
+export function downloadTranscript(
+  format: ETranscriptExportFormat,
+  messages: IMessageListItem[],
+  options: ITranscriptExportOptions = {}
+) {
+  const exportedAt = options.exportedAt ?? new Date();
+  const { extension, mimeType } = FILE_TYPES[format];
+  downloadFile(
+    formatTranscript(format, messages, { ...options, exportedAt }),
+    `transcript-${exportedAt.toISOString().replace(/[:.]/g, '-')}.${extension}`,
+    mimeType
+  );
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import type {
+  ValidationErrorResponse,
+  ValidationIssue,
+} from '@/types/conversation';
+
+type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse<ValidationErrorResponse> };
+
+function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+// Builds a structured 400 response listing every invalid field
+export function validationErrorResponse(
+  error: string,
+  issues: ValidationIssue[] = []
+) {
+  return NextResponse.json<ValidationErrorResponse>(
+    { error, issues },
+    { status: 400 }
+  );
+}
+
+/**
+ * Parses a JSON request body against a schema.
+ * Malformed JSON and schema failures both become 400 responses.
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T
+): Promise<ParseResult<z.infer<T>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: validationErrorResponse('Request body must be valid JSON'),
+    };
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        'Invalid request body',
+        toValidationIssues(result.error)
+      ),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+// Parses URL search params against a schema, empty params count as missing
+export function parseSearchParams<T extends z.ZodTypeAny>(
+  searchParams: URLSearchParams,
+  schema: T
+): ParseResult<z.infer<T>> {
+  const params: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (value !== '') {
+      params[key] = value;
+    }
+  });
+
+  const result = schema.safeParse(params);
+  if (!result.success) {
+    return {
+      success: false,
+      response: validationErrorResponse(
+        'Invalid query parameters',
+        toValidationIssues(result.error)
+      ),
+    };
+  }
+  return { success: true, data: result.data };
+}
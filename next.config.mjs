@@ -13,6 +13,12 @@ const nextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  // Persona prompt files are read from disk at runtime. instrumentation.ts
+  // loads them when any server function starts, so every route needs them.
+  outputFileTracingIncludes: {
+    // '**' also matches top-level pages and the instrumentation entry
+    '**': ['./prompts/**/*'],
+  },
   images: {
     unoptimized: true,
   },
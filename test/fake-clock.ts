@@ -0,0 +1,67 @@
+import type { IMessageEngineClock } from '@/lib/message';
+
+interface FakeTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+  // Set for intervals, which are rescheduled after each run
+  every?: number;
+}
+
+/**
+ * Deterministic IMessageEngineClock. Time only moves when advance() is
+ * called, which runs every timer that falls due in order.
+ */
+export class FakeClock implements IMessageEngineClock {
+  private time = 0;
+  private nextId = 1;
+  private timers = new Map<number, FakeTimer>();
+
+  now = () => this.time;
+
+  setTimeout = (callback: () => void, ms: number) =>
+    this.schedule({ callback, at: this.time + ms });
+
+  setInterval = (callback: () => void, ms: number) =>
+    this.schedule({ callback, at: this.time + ms, every: ms });
+
+  clearInterval = (handle: unknown) => {
+    this.timers.delete(handle as number);
+  };
+
+  get pendingTimers() {
+    return this.timers.size;
+  }
+
+  advance(ms: number) {
+    const end = this.time + ms;
+    let timer = this.nextDueTimer(end);
+    while (timer) {
+      this.time = timer.at;
+      if (timer.every) {
+        timer.at += timer.every;
+      } else {
+        this.timers.delete(timer.id);
+      }
+      timer.callback();
+      timer = this.nextDueTimer(end);
+    }
+    this.time = end;
+  }
+
+  private schedule(timer: Omit<FakeTimer, 'id'>) {
+    const id = this.nextId++;
+    this.timers.set(id, { ...timer, id });
+    return id;
+  }
+
+  private nextDueTimer(end: number) {
+    let next: FakeTimer | undefined;
+    this.timers.forEach((timer) => {
+      if (timer.at <= end && (!next || timer.at < next.at)) {
+        next = timer;
+      }
+    });
+    return next;
+  }
+}
@@ -0,0 +1,10 @@
+import type { LeadRecord, LeadSink } from '@/lib/leads/sink';
+
+// Keeps saved leads in memory so tests can inspect them
+export class FakeLeadSink implements LeadSink {
+  leads: LeadRecord[] = [];
+
+  async save(lead: LeadRecord) {
+    this.leads.push(lead);
+  }
+}
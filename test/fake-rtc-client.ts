@@ -0,0 +1,22 @@
+import type { UID } from 'agora-rtc-react';
+import { ReplayRTCClient, encodePts } from '@/lib/message-recording';
+
+/**
+ * Stands in for IAgoraRTCClient in MessageEngine tests, with helpers to emit
+ * the events the agent produces.
+ */
+export class FakeRTCClient extends ReplayRTCClient {
+  listenerCount(event: string) {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  // Sends one data stream chunk, as produced by toChunks in fixtures
+  emitStreamMessage(uid: UID, chunk: string) {
+    this.emit('stream-message', uid, new TextEncoder().encode(chunk));
+  }
+
+  // Reports the PTS of the agent's audio that is playing, in milliseconds
+  emitPts(pts: number) {
+    this.emit('audio-metadata', encodePts(pts));
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  EMessageStatus,
+  ETranscriptionObjectType,
+  type IAgentTranscription,
+  type IMessageInterrupt,
+  type IUserTranscription,
+  type TDataChunkMessageV1,
+  type TDataChunkMessageWord,
+} from '@/lib/message';
+
+export const AGENT_UID = 1000;
+export const USER_UID = 2000;
+
+let messageCount = 0;
+
+/**
+ * Encodes a message the way the agent sends it over the data stream:
+ * base64 JSON split into `{message_id}|{part_idx}|{part_sum}|{content}` chunks.
+ */
+export function toChunks(
+  message: object,
+  { parts = 1, messageId }: { parts?: number; messageId?: string } = {}
+): string[] {
+  const id = messageId ?? `msg-${++messageCount}`;
+  const content = btoa(JSON.stringify(message));
+  const size = Math.ceil(content.length / parts);
+  return Array.from(
+    { length: parts },
+    (_, index) =>
+      `${id}|${index + 1}|${parts}|${content.slice(index * size, (index + 1) * size)}`
+  );
+}
+
+export function userTranscription(
+  turn_id: number,
+  text: string,
+  final = true
+): IUserTranscription {
+  return {
+    object: ETranscriptionObjectType.USER_TRANSCRIPTION,
+    text,
+    start_ms: 0,
+    duration_ms: 0,
+    language: 'en-US',
+    turn_id,
+    stream_id: USER_UID,
+    user_id: String(USER_UID),
+    words: null,
+    final,
+  };
+}
+
+export function agentTranscription(
+  turn_id: number,
+  text: string,
+  turn_status: EMessageStatus = EMessageStatus.END,
+  words: TDataChunkMessageWord[] | null = null
+): IAgentTranscription {
+  return {
+    object: ETranscriptionObjectType.AGENT_TRANSCRIPTION,
+    text,
+    start_ms: 0,
+    duration_ms: 0,
+    language: 'en-US',
+    turn_id,
+    stream_id: AGENT_UID,
+    user_id: String(AGENT_UID),
+    words,
+    quiet: false,
+    turn_seq_id: turn_id,
+    turn_status,
+  };
+}
+
+/**
+ * Splits text into WORD mode words that start `durationMs` apart from
+ * `startMs`, keeping the leading space of each word like the agent does.
+ */
+export function wordsFor(
+  text: string,
+  startMs: number,
+  durationMs = 100
+): TDataChunkMessageWord[] {
+  return text.split(/(?= )/).map((word, index) => ({
+    word,
+    start_ms: startMs + index * durationMs,
+    duration_ms: durationMs,
+    stable: true,
+  }));
+}
+
+export function agentWordTranscription(
+  turn_id: number,
+  text: string,
+  startMs: number,
+  turn_status: EMessageStatus = EMessageStatus.END
+): IAgentTranscription {
+  return agentTranscription(turn_id, text, turn_status, wordsFor(text, startMs));
+}
+
+export function messageInterrupt(
+  turn_id: number,
+  start_ms: number
+): IMessageInterrupt {
+  return {
+    object: ETranscriptionObjectType.MSG_INTERRUPTED,
+    message_id: `interrupt-${turn_id}`,
+    data_type: 'message',
+    turn_id,
+    start_ms,
+    send_ts: 0,
+  };
+}
+
+export function legacyMessage(
+  stream_id: number,
+  text: string,
+  text_ts: number,
+  is_final = true
+): TDataChunkMessageV1 {
+  return {
+    is_final,
+    stream_id,
+    message_id: `legacy-${text_ts}`,
+    data_type: 'transcribe',
+    text_ts,
+    text,
+  };
+}
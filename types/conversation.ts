@@ -1,108 +1,668 @@
+import { z } from 'zod';
+import type { IMessageListItem } from '@/lib/message';
+
+export type TokenRole = 'publisher' | 'subscriber';
+
 export interface AgoraTokenData {
   token: string;
+  // Numeric uid as a string, or the string user account the token was built for
   uid: string;
   channel: string;
+  role?: TokenRole;
+  // Set when the token also carries RTM login privileges for this user id
+  rtmUserId?: string;
+  // Unix timestamp (seconds) when the token expires
+  expiresAt?: number;
   agentId?: string;
+  agentUid?: string;
+  avatarUid?: string;
+  sessionId?: string;
+  sessionToken?: string;
+}
+
+// Request schemas validate API input; the request types are derived from them
+// so they can't drift apart.
+
+// cascade: ASR -> LLM -> TTS, mllm: a realtime multimodal model (OpenAI Realtime)
+export const AgentModeSchema = z.enum(['cascade', 'mllm']);
+export type AgentMode = z.infer<typeof AgentModeSchema>;
+
+export const ClientStartRequestSchema = z.object({
+  requester_id: z.string().min(1),
+  channel_name: z.string().min(1).max(64),
+  rtc_codec: z.number().int().optional(),
+  input_modalities: z.array(z.string()).optional(),
+  output_modalities: z.array(z.string()).optional(),
+  prompt_version: z.number().int().positive().optional(),
+  persona_id: z.string().min(1).optional(),
+  mode: AgentModeSchema.optional(),
+});
+export type ClientStartRequest = z.infer<typeof ClientStartRequestSchema>;
+
+export const GenerateTokenQuerySchema = z
+  .object({
+    uid: z
+      .string()
+      .regex(/^\d+$/, 'uid must be a non-negative integer')
+      .optional(),
+    // String user account, used instead of a numeric uid
+    account: z.string().min(1).max(255).optional(),
+    channel: z.string().min(1).max(64).optional(),
+    role: z.enum(['publisher', 'subscriber']).default('publisher'),
+    // rtm=true returns one AccessToken2 with both RTC and RTM privileges
+    rtm: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform((value) => value === 'true'),
+  })
+  .refine((query) => !(query.uid && query.account), {
+    message: 'Use either uid or account, not both',
+    path: ['account'],
+  })
+  .refine(
+    (query) =>
+      !query.rtm || query.account || (query.uid && query.uid !== '0'),
+    {
+      message: 'RTM tokens need an account or a non-zero uid',
+      path: ['rtm'],
+    }
+  );
+export type GenerateTokenQuery = z.infer<typeof GenerateTokenQuerySchema>;
+
+export interface ValidationIssue {
+  // Dot-separated path to the invalid field, e.g. "input_modalities.0"
+  path: string;
+  message: string;
+}
+
+// Body of a 400 response for a request that failed schema validation
+export interface ValidationErrorResponse {
+  error: string;
+  issues: ValidationIssue[];
 }
 
-export interface ClientStartRequest {
-  requester_id: string;
-  channel_name: string;
-  rtc_codec?: number;
-  input_modalities?: string[];
-  output_modalities?: string[];
+export interface PersonaSummary {
+  id: string;
+  name: string;
+  description: string;
 }
 
-interface MicrosoftTTSParams {
+export interface PersonaListResponse {
+  personas: PersonaSummary[];
+  default_persona_id: string;
+}
+
+export interface MicrosoftTTSParams {
   key: string;
   region: string;
   voice_name: string;
   rate?: number;
   volume?: number;
+  sample_rate?: number;
 }
 
-interface ElevenLabsTTSParams {
+export interface ElevenLabsTTSParams {
   key: string;
   voice_id: string;
   model_id: string;
+  sample_rate?: number;
+}
+
+export interface CartesiaTTSParams {
+  api_key: string;
+  model_id: string;
+  voice: {
+    mode: 'id';
+    id: string;
+  };
+  language?: string;
+  output_format?: {
+    container: 'raw';
+    sample_rate: number;
+  };
+}
+
+export interface OpenAITTSParams {
+  api_key: string;
+  model: string;
+  voice: string;
+  instructions?: string;
+  speed?: number;
+}
+
+export interface HumeAITTSParams {
+  key: string;
+  voice_id: string;
+  provider?: 'HUME_AI' | 'CUSTOM_VOICE';
+  speed?: number;
 }
 
 export enum TTSVendor {
   Microsoft = 'microsoft',
   ElevenLabs = 'elevenlabs',
+  Cartesia = 'cartesia',
+  OpenAI = 'openai',
+  HumeAI = 'humeai',
 }
 
-export interface TTSConfig {
-  vendor: TTSVendor;
-  params: MicrosoftTTSParams | ElevenLabsTTSParams;
+export interface MicrosoftTTSConfig {
+  vendor: TTSVendor.Microsoft;
+  params: MicrosoftTTSParams;
 }
 
-// Agora API request body
-export interface AgoraStartRequest {
-  name: string;
-  properties: {
-    channel: string;
-    token: string;
-    agent_rtc_uid: string;
-    remote_rtc_uids: string[];
-    enable_string_uid?: boolean;
-    idle_timeout?: number;
-    advanced_features?: {
-      enable_aivad?: boolean;
-      enable_bhvs?: boolean;
-    };
-    asr: {
-      language: string;
-      task?: string;
-      vendor?: string;
-      params?: {
-        api_key?: string;
-        language_hints?: string[];
-      };
-    };
-    llm: {
-      url?: string;
-      api_key?: string;
-      system_messages: Array<{
-        role: string;
-        content: string;
-      }>;
-      greeting_message: string;
-      failure_message: string;
-      max_history?: number;
-      input_modalities?: string[];
-      output_modalities?: string[];
-      params: {
-        model: string;
-        max_tokens: number;
-        temperature?: number;
-        top_p?: number;
-        // tools?: Array<{ type: string }>;
-      };
-    };
-    vad: {
-      silence_duration_ms: number;
-      speech_duration_ms?: number;
-      threshold?: number;
-      interrupt_duration_ms?: number;
-      prefix_padding_ms?: number;
+export interface ElevenLabsTTSConfig {
+  vendor: TTSVendor.ElevenLabs;
+  params: ElevenLabsTTSParams;
+}
+
+export interface CartesiaTTSConfig {
+  vendor: TTSVendor.Cartesia;
+  params: CartesiaTTSParams;
+}
+
+export interface OpenAITTSConfig {
+  vendor: TTSVendor.OpenAI;
+  params: OpenAITTSParams;
+}
+
+export interface HumeAITTSConfig {
+  vendor: TTSVendor.HumeAI;
+  params: HumeAITTSParams;
+}
+
+// Discriminated on vendor so params is typed per TTS vendor
+export type TTSConfig =
+  | MicrosoftTTSConfig
+  | ElevenLabsTTSConfig
+  | CartesiaTTSConfig
+  | OpenAITTSConfig
+  | HumeAITTSConfig;
+
+export enum ASRVendor {
+  Ares = 'ares',
+  Microsoft = 'microsoft',
+  Deepgram = 'deepgram',
+  Soniox = 'soniox',
+}
+
+export interface MicrosoftASRParams {
+  key: string;
+  region: string;
+  language: string;
+  phrase_list?: string[];
+}
+
+export interface DeepgramASRParams {
+  url?: string;
+  key: string;
+  model: string;
+  language: string;
+}
+
+export interface SonioxASRParams {
+  api_key: string;
+  language_hints?: string[];
+}
+
+// ARES is Agora's built-in recognizer and needs no vendor params
+export interface AresASRConfig {
+  vendor: ASRVendor.Ares;
+  language: string;
+}
+
+export interface MicrosoftASRConfig {
+  vendor: ASRVendor.Microsoft;
+  language: string;
+  params: MicrosoftASRParams;
+}
+
+export interface DeepgramASRConfig {
+  vendor: ASRVendor.Deepgram;
+  language: string;
+  params: DeepgramASRParams;
+}
+
+export interface SonioxASRConfig {
+  vendor: ASRVendor.Soniox;
+  language: string;
+  params: SonioxASRParams;
+}
+
+// Discriminated on vendor so params is typed per ASR vendor
+export type ASRConfig =
+  | AresASRConfig
+  | MicrosoftASRConfig
+  | DeepgramASRConfig
+  | SonioxASRConfig;
+
+export interface VADConfig {
+  silence_duration_ms: number;
+  speech_duration_ms?: number;
+  threshold?: number;
+  interrupt_duration_ms?: number;
+  prefix_padding_ms?: number;
+}
+
+export enum AvatarVendor {
+  HeyGen = 'heygen',
+  Akool = 'akool',
+}
+
+export interface HeyGenAvatarParams {
+  api_key: string;
+  quality?: 'low' | 'medium' | 'high';
+  agora_uid: string;
+  agora_token?: string;
+  avatar_id?: string;
+  disable_idle_timeout?: boolean;
+  activity_idle_timeout?: number;
+}
+
+export interface AkoolAvatarParams {
+  api_key: string;
+  agora_uid: string;
+  agora_token?: string;
+  avatar_id?: string;
+}
+
+export interface HeyGenAvatarConfig {
+  enable: boolean;
+  vendor: AvatarVendor.HeyGen;
+  params: HeyGenAvatarParams;
+}
+
+export interface AkoolAvatarConfig {
+  enable: boolean;
+  vendor: AvatarVendor.Akool;
+  params: AkoolAvatarParams;
+}
+
+// Avatars only work with the cascaded pipeline, not with an MLLM
+export type AvatarConfig = HeyGenAvatarConfig | AkoolAvatarConfig;
+
+export interface MLLMConfig {
+  vendor: 'openai';
+  style: 'openai';
+  url: string;
+  api_key: string;
+  params: {
+    model: string;
+    voice?: string;
+    instructions?: string;
+  };
+  input_modalities: string[];
+  output_modalities: string[];
+  greeting_message?: string;
+  failure_message?: string;
+  max_history?: number;
+}
+
+export interface TurnDetectionConfig {
+  // server_vad and semantic_vad are only available with an MLLM
+  type: 'agora_vad' | 'server_vad' | 'semantic_vad';
+  threshold?: number;
+  prefix_padding_ms?: number;
+  silence_duration_ms?: number;
+  // semantic_vad only
+  eagerness?: 'auto' | 'low' | 'medium' | 'high';
+}
+
+interface AgoraBaseProperties {
+  channel: string;
+  token: string;
+  agent_rtc_uid: string;
+  remote_rtc_uids: string[];
+  enable_string_uid?: boolean;
+  idle_timeout?: number;
+  advanced_features?: {
+    enable_aivad?: boolean;
+    enable_bhvs?: boolean;
+    enable_mllm?: boolean;
+    // Agent joins RTM and reads the user's presence state as context.presence
+    enable_rtm?: boolean;
+  };
+}
+
+// Tools a persona can give its agent, defined in lib/tools
+export enum AgentToolName {
+  SaveLead = 'save_lead',
+  BookDemo = 'book_demo',
+}
+
+// OpenAI style function tool the LLM may call, see lib/tools
+export interface LLMToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    // JSON Schema of the arguments
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface AgoraCascadeProperties extends AgoraBaseProperties {
+  asr: ASRConfig;
+  llm: {
+    url?: string;
+    api_key?: string;
+    // custom adds turn_id and timestamp to each request, see /api/llm
+    vendor?: 'custom';
+    system_messages: Array<{
+      role: string;
+      content: string;
+    }>;
+    greeting_message: string;
+    failure_message: string;
+    max_history?: number;
+    input_modalities?: string[];
+    output_modalities?: string[];
+    params: {
+      model: string;
+      max_tokens: number;
+      temperature?: number;
+      top_p?: number;
+      tools?: LLMToolDefinition[];
     };
-    tts: TTSConfig;
   };
+  vad: VADConfig;
+  tts: TTSConfig;
+  avatar?: AvatarConfig;
 }
 
-export interface StopConversationRequest {
-  agent_id: string;
+export interface AgoraMLLMProperties extends AgoraBaseProperties {
+  mllm: MLLMConfig;
+  turn_detection?: TurnDetectionConfig;
+}
+
+// Agora API request body
+export interface AgoraStartRequest {
+  name: string;
+  properties: AgoraCascadeProperties | AgoraMLLMProperties;
 }
 
+// Agent ids go into Agora REST paths, so nothing that could change the path
+export const AgentIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, 'Invalid agent id');
+
+export const StopConversationRequestSchema = z.object({
+  agent_id: AgentIdSchema,
+});
+export type StopConversationRequest = z.infer<
+  typeof StopConversationRequestSchema
+>;
+
+export const AgentInterruptRequestSchema = z.object({
+  agent_id: AgentIdSchema,
+});
+export type AgentInterruptRequest = z.infer<typeof AgentInterruptRequestSchema>;
+
+export const MAX_SPEAK_TEXT_BYTES = 512;
+
+// INTERRUPT: speak now, APPEND: speak after the current reply, IGNORE: drop if busy
+export const SpeakPrioritySchema = z.enum(['INTERRUPT', 'APPEND', 'IGNORE']);
+export type SpeakPriority = z.infer<typeof SpeakPrioritySchema>;
+
+export const AgentSpeakRequestSchema = z.object({
+  agent_id: AgentIdSchema,
+  text: z
+    .string()
+    .trim()
+    .min(1)
+    .refine(
+      (text) => new TextEncoder().encode(text).length <= MAX_SPEAK_TEXT_BYTES,
+      `text must be at most ${MAX_SPEAK_TEXT_BYTES} bytes`
+    ),
+  priority: SpeakPrioritySchema.optional(),
+  interruptable: z.boolean().optional(),
+});
+export type AgentSpeakRequest = z.infer<typeof AgentSpeakRequestSchema>;
+
 export interface AgentResponse {
   agent_id: string;
   create_ts: number;
   state: string;
+  // Set by invite-agent: the uid the agent joined RTC (and RTM) with
+  agent_uid?: string;
+  // Set by invite-agent when a video avatar joins the channel
+  avatar_uid?: string;
+  // Set by invite-agent when the session is stored, see /api/sessions
+  session_id?: string;
+  // Bearer token for saving the session's turns
+  session_token?: string;
+}
+
+// RTM message type the agent treats as user input
+export const AGENT_CHAT_MESSAGE_TYPE = 'user.transcription';
+
+// Typed user input, sent to the agent's RTM user id when enable_rtm is on.
+// The agent answers it the same way as a transcribed voice turn.
+export interface AgentChatMessage {
+  message: string;
+  priority: SpeakPriority;
+  interruptable: boolean;
+}
+
+// Agent lifecycle states reported by the Conversational AI API
+export type AgentStatus =
+  | 'IDLE'
+  | 'STARTING'
+  | 'RUNNING'
+  | 'STOPPING'
+  | 'STOPPED'
+  | 'RECOVERING'
+  | 'FAILED';
+
+export interface AgentStatusResponse {
+  agent_id: string;
+  start_ts: number;
+  stop_ts?: number;
+  status: AgentStatus;
+  message?: string;
+}
+
+export const AgentListQuerySchema = z.object({
+  channel: z.string().min(1).optional(),
+  // 0 IDLE, 1 STARTING, 2 RUNNING, 3 STOPPING, 4 STOPPED, 5 RECOVERING, 6 FAILED
+  state: z.coerce.number().int().min(0).max(6).optional(),
+  from_time: z.coerce.number().int().nonnegative().optional(),
+  to_time: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  cursor: z.string().min(1).optional(),
+});
+export type AgentListQuery = z.infer<typeof AgentListQuerySchema>;
+
+export interface AgentListItem {
+  agent_id: string;
+  start_ts: number;
+  status: AgentStatus;
+}
+
+export interface AgentListResponse {
+  data: {
+    count: number;
+    list: AgentListItem[];
+  };
+  meta: {
+    cursor?: string;
+    total: number;
+  };
+  status: string;
+}
+
+// One finished turn of a transcript, as exported and stored with a session
+export const MAX_TURN_TEXT_LENGTH = 10_000;
+
+export const TranscriptTurnSchema = z.object({
+  turn_id: z.number().int().nonnegative(),
+  speaker: z.enum(['agent', 'user']),
+  uid: z.number().int(),
+  status: z.enum(['in_progress', 'end', 'interrupted']),
+  // Clients truncate longer turns before saving them
+  text: z.string().max(MAX_TURN_TEXT_LENGTH),
+  // Wall clock time of the turn, ISO 8601
+  timestamp: z.string().datetime(),
+  // Position in the speaker's audio stream, null for typed text
+  start_ms: z.number().nullable(),
+  duration_ms: z.number().nullable(),
+});
+export type TranscriptTurn = z.infer<typeof TranscriptTurnSchema>;
+
+export const MAX_SESSION_TURNS = 1000;
+
+export const SaveSessionTurnsRequestSchema = z.object({
+  turns: z.array(TranscriptTurnSchema).max(MAX_SESSION_TURNS),
+});
+export type SaveSessionTurnsRequest = z.infer<
+  typeof SaveSessionTurnsRequestSchema
+>;
+
+// What the agent was started with, without keys or endpoints
+export interface SessionConfigSnapshot {
+  mode: AgentMode;
+  prompt: { name: string; version: number };
+  modalities: { input: string[]; output: string[] };
+  rtm_enabled: boolean;
+  llm?: {
+    model?: string;
+    max_tokens: number;
+    temperature?: number;
+    top_p?: number;
+    max_history: number;
+    tools?: string[];
+    // Whether the agent went through /api/llm/chat/completions
+    proxied?: boolean;
+  };
+  asr?: { vendor: ASRVendor; language: string };
+  tts?: { vendor: TTSVendor };
+  avatar?: { vendor: AvatarVendor };
+  mllm?: { model: string; voice?: string; turn_detection: string };
+  vad?: VADConfig;
+}
+
+// A conversation with one agent, stored by agent_id
+export interface SessionRecord {
+  agent_id: string;
+  channel: string;
+  persona: PersonaSummary;
+  config: SessionConfigSnapshot;
+  started_at: string;
+  // Set when the client saves the final turns
+  stopped_at: string | null;
+  turns: TranscriptTurn[];
+}
+
+export interface SessionSummary
+  extends Pick<
+    SessionRecord,
+    'agent_id' | 'channel' | 'persona' | 'started_at' | 'stopped_at'
+  > {
+  mode: AgentMode;
+  turn_count: number;
+}
+
+export interface SessionListResponse {
+  sessions: SessionSummary[];
+}
+
+// A function call from the LLM, in the OpenAI chat completions format.
+// arguments is a JSON string, validated against the tool's schema.
+export const ToolCallSchema = z.object({
+  id: z.string().min(1),
+  type: z.literal('function'),
+  function: z.object({
+    name: z.string().min(1),
+    arguments: z.string(),
+  }),
+});
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+
+export const ToolCallRequestSchema = z.object({
+  // The conversation the call came from, stored with the result
+  agent_id: z.string().min(1).optional(),
+  channel: z.string().min(1).optional(),
+  tool_call: ToolCallSchema,
+});
+export type ToolCallRequest = z.infer<typeof ToolCallRequestSchema>;
+
+// content goes back to the LLM as the tool message
+export interface ToolCallResponse {
+  tool_call_id: string;
+  content: string;
+}
+
+export const ChatMessageSchema = z
+  .object({
+    role: z.enum(['system', 'user', 'assistant', 'tool']),
+    // A string, or content parts for multimodal input
+    content: z
+      .union([z.string(), z.array(z.record(z.unknown()))])
+      .nullable()
+      .optional(),
+    name: z.string().optional(),
+    tool_calls: z.array(ToolCallSchema).optional(),
+    tool_call_id: z.string().optional(),
+  })
+  .passthrough();
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+// Request from the agent to /api/llm/chat/completions. With llm.vendor
+// "custom" Agora adds turn_id and timestamp, any other OpenAI parameters
+// (temperature, tools, ...) are passed through to the upstream LLM.
+export const ChatCompletionRequestSchema = z
+  .object({
+    model: z.string().optional(),
+    messages: z.array(ChatMessageSchema).min(1),
+    stream: z.boolean().optional(),
+    turn_id: z.number().int().optional(),
+    timestamp: z.number().optional(),
+  })
+  .passthrough();
+export type ChatCompletionRequest = z.infer<
+  typeof ChatCompletionRequestSchema
+>;
+
+// Streamed tool calls arrive in pieces, index says which call a piece belongs to
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+// One server-sent event of a streamed chat completion
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: ToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+}
+
+// Temporary user state published over RTM presence. With enable_rtm the
+// agent passes it to the LLM as context.presence. RTM stores strings only.
+export interface PresenceState {
+  page?: string;
+  selection?: string;
+  quiz_score?: string;
+  [key: string]: string | undefined;
 }
 
 export interface ConversationComponentProps {
   agoraData: AgoraTokenData;
+  personaId?: string;
+  // Display name of the persona, used in exported transcripts
+  agentName?: string;
+  mode?: AgentMode;
   onTokenWillExpire: (uid: string) => Promise<string>;
-  onEndConversation: () => void;
+  // Receives the finished turns so the transcript outlives the call
+  onEndConversation: (messages: IMessageListItem[]) => void;
 }